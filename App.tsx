@@ -1,13 +1,43 @@
 
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { EQBand, FrequencyPoint, EQPreset } from './types';
-import { calculateOverallFrequencyResponse, generateSimulatedSpectrum } from './utils/audioProcessor';
+import { EQBand, FrequencyPoint, EQPreset, AnalyzerSettings, SpectrumLayer, SpectrogramSettings, ProcessingSettings } from './types';
+import { calculateOverallFrequencyResponse, applySpectrumBallistics, updatePeakHold } from './utils/audioProcessor';
+import { AudioEngine } from './utils/audioEngine';
+import { AudioFilePlayer } from './utils/audioPlayer';
+import { LiveInput } from './utils/liveInput';
 import EQBandControl from './components/EQBandControl';
 import FrequencyResponseGraph from './components/FrequencyResponseGraph';
 import Slider from './components/Slider';
-import { DEFAULT_BANDS, MIN_FREQ, MAX_FREQ, NUM_FREQUENCY_POINTS, NUM_SPECTRUM_POINTS, MASTER_GAIN_RANGE } from './constants';
+import HistoryPanel from './components/HistoryPanel';
+import ComparePanel, { MorphSettings } from './components/ComparePanel';
+import PresetManager from './components/PresetManager';
+import PluginExportModal from './components/PluginExportModal';
+import CoefficientExportModal from './components/CoefficientExportModal';
+import RenderModal from './components/RenderModal';
+import AudioPlayerBar from './components/AudioPlayerBar';
+import LiveInputPanel from './components/LiveInputPanel';
+import AnalyzerSettingsMenu from './components/AnalyzerSettingsMenu';
+import Spectrogram from './components/Spectrogram';
+import MatchEQPanel from './components/MatchEQPanel';
+import AutoFitPanel from './components/AutoFitPanel';
+import ProcessingModeMenu from './components/ProcessingModeMenu';
+import { DEFAULT_BANDS, MIN_FREQ, MAX_FREQ, NUM_FREQUENCY_POINTS, NUM_SPECTRUM_POINTS, MASTER_GAIN_RANGE, SAMPLE_RATES, DEFAULT_SAMPLE_RATE, SLOT_NAMES, SPECTRUM_DISPLAY_OFFSET, DEFAULT_ANALYZER_SETTINGS, PEAK_HOLD_DECAY, SPECTRUM_COLORS, DEFAULT_SPECTROGRAM_SETTINGS, MATCH_COLORS, GRAPH_MARGIN, RIGHT_AXIS_WIDTH, PHASE_COLOR, GROUP_DELAY_COLOR, DEFAULT_PROCESSING_SETTINGS } from './constants';
+import { FACTORY_PRESETS } from './factoryPresets';
 import { loadPresetsFromLocalStorage, savePresetsToLocalStorage } from './utils/localStorageUtils';
-import { PLUGIN_PROCESSOR_CPP, PLUGIN_PROCESSOR_H, PLUGIN_EDITOR_CPP, PLUGIN_EDITOR_H } from './utils/vstTemplates';
+import { PluginProgram } from './utils/vstTemplates';
+import { createBand } from './utils/bandUtils';
+import { HistoryState, EQSnapshot, createHistory, pushHistory, endGesture, undo, redo, jumpToHistory, describeBandChange } from './utils/history';
+import { interpolateSnapshots } from './utils/morph';
+import { snapshotsMatch } from './utils/presetUtils';
+import { getFitResidual } from './utils/curveFit';
+
+// History label of states produced by the A/B morph slider
+const MORPH_LABEL = 'Morph';
+
+// Starting the AudioContext can fail (e.g. no output device); the EQ then stays silent
+const resumeEngine = (engine: AudioEngine) => {
+  engine.resume().catch((error) => console.error('Failed to start audio', error));
+};
 
 // --- CUSTOM LOGO COMPONENT ---
 const Logo = () => (
@@ -55,28 +85,77 @@ const Logo = () => (
 );
 
 const App: React.FC = () => {
-  const [bands, setBands] = useState<EQBand[]>(DEFAULT_BANDS);
-  const [masterGain, setMasterGain] = useState<number>(0);
+  // Bands and master gain live in the undo history; the present entry is the live state
+  const [history, setHistory] = useState<HistoryState>(() => createHistory({ bands: DEFAULT_BANDS, masterGain: 0 }));
+  const { bands, masterGain } = history.present.snapshot;
+  const [showHistory, setShowHistory] = useState(false);
+
+  // A/B comparison slots. The live state is the working copy of the active slot; it is written
+  // back to the slot only on switch, copy or morph, so undo never has to know about slots.
+  const [slots, setSlots] = useState<(EQSnapshot | null)[]>(() => SLOT_NAMES.map(() => null));
+  const [activeSlot, setActiveSlot] = useState(0);
+  const [morph, setMorph] = useState<MorphSettings>({ from: 0, to: 1, amount: 0 });
   const [analyzerSmoothing, setAnalyzerSmoothing] = useState<number>(0.5);
   const [showAnalyzer, setShowAnalyzer] = useState<boolean>(true);
+  const [analyzerSettings, setAnalyzerSettings] = useState<AnalyzerSettings>(DEFAULT_ANALYZER_SETTINGS);
+  const [showInputSpectrum, setShowInputSpectrum] = useState<boolean>(true); // Pre-EQ trace next to the output
+  const [showPeakHold, setShowPeakHold] = useState<boolean>(false);
+  const [frozenSpectrum, setFrozenSpectrum] = useState<FrequencyPoint[] | null>(null); // Static reference trace
+  const [spectrogramSettings, setSpectrogramSettings] = useState<SpectrogramSettings>(DEFAULT_SPECTROGRAM_SETTINGS);
+  const [spectrogramFrame, setSpectrogramFrame] = useState<FrequencyPoint[]>([]); // Latest post-EQ analyzer frame, dBFS
+  const [processing, setProcessing] = useState<ProcessingSettings>(DEFAULT_PROCESSING_SETTINGS); // Zero latency, natural or linear phase
+  const [firMagnitudeError, setFirMagnitudeError] = useState<number | null>(null); // Of the running FIR, measured while the mode menu is open
+  const [showPhase, setShowPhase] = useState<boolean>(false);
+  const [showGroupDelay, setShowGroupDelay] = useState<boolean>(false);
+  const [contextSampleRate, setContextSampleRate] = useState<number>(DEFAULT_SAMPLE_RATE); // What the analyzer actually runs at
   const [frequencyResponseData, setFrequencyResponseData] = useState<FrequencyPoint[]>([]);
-  const [spectrumData, setSpectrumData] = useState<FrequencyPoint[]>([]);
+  const [liveSpectra, setLiveSpectra] = useState<SpectrumLayer[]>([]);
   const [selectedBandId, setSelectedBandId] = useState<number | null>(null);
   const [hoveredBandId, setHoveredBandId] = useState<number | null>(null);
   const [bypass, setBypass] = useState<boolean>(false);
+  const [sampleRate, setSampleRate] = useState<number>(DEFAULT_SAMPLE_RATE);
+
+  // Audio file playback through the EQ; while a file is loaded the analyzer shows it
+  const [audioFile, setAudioFile] = useState<{ name: string; buffer: AudioBuffer } | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [engineError, setEngineError] = useState<string | null>(null);
+  const [levelMatch, setLevelMatch] = useState(true);
+  const [levelOffset, setLevelOffset] = useState(0);
+
+  // Live microphone / line input; analyse-only by default so it cannot feed back
+  const [showLiveInput, setShowLiveInput] = useState(false);
+  const [monitorLiveInput, setMonitorLiveInput] = useState(false);
+  const [isFilePlaying, setIsFilePlaying] = useState(false);
+
+  // EQ matching against a reference track, or auto-fit to an imported curve (one at a time);
+  // the target curve is shown while the panel is open
+  const [showMatchEQ, setShowMatchEQ] = useState(false);
+  const [showAutoFit, setShowAutoFit] = useState(false);
+  const [fitTarget, setFitTarget] = useState<FrequencyPoint[] | null>(null);
 
   // Preset management
   const [presets, setPresets] = useState<EQPreset[]>([]);
+  const [presetsLoaded, setPresetsLoaded] = useState(false); // Stays false if the stored library is unreadable, so it is kept
   const [showPresets, setShowPresets] = useState(false);
-  const [currentPresetName, setCurrentPresetName] = useState('');
+  const [loadedPresetId, setLoadedPresetId] = useState<string | null>(null);
 
   // Download Simulation Modal
   const [showDownloadModal, setShowDownloadModal] = useState(false);
+  const [showCoefficientModal, setShowCoefficientModal] = useState(false);
+  const [showRenderModal, setShowRenderModal] = useState(false);
 
   // --- AUDIO SIMULATION LOOP ---
   // We use a ref to store the current spectrum to calculate smooth transitions in the animation loop
   const prevSpectrumRef = useRef<FrequencyPoint[]>([]);
+  const prevInputSpectrumRef = useRef<FrequencyPoint[]>([]);
+  const peakHoldRef = useRef<{ input: FrequencyPoint[]; output: FrequencyPoint[] }>({ input: [], output: [] });
+  const lastFrameRef = useRef<number>(0);
   const animationFrameRef = useRef<number>(0);
+  const audioEngineRef = useRef<AudioEngine | null>(null);
+  const playerRef = useRef<AudioFilePlayer | null>(null);
+  const liveInputRef = useRef<LiveInput | null>(null);
+  const graphAreaRef = useRef<HTMLDivElement>(null);
+  const bandControlsRef = useRef<HTMLDivElement>(null);
 
   // Derived state for bypass and SOLO logic
   const effectiveBands = useMemo(() => {
@@ -101,62 +180,137 @@ const App: React.FC = () => {
 
   const effectiveMasterGain = bypass ? 0 : masterGain;
 
+  const spectrumLayers = useMemo((): SpectrumLayer[] => {
+    if (!showAnalyzer) return [];
+    if (!frozenSpectrum) return liveSpectra;
+    return [...liveSpectra, { id: 'reference', label: 'Frozen', points: frozenSpectrum, color: SPECTRUM_COLORS.reference, variant: 'reference' }];
+  }, [showAnalyzer, liveSpectra, frozenSpectrum]);
+
+  // Fit target and how far the current bands are from it (master gain is not part of the fit)
+  const targetLayers = useMemo((): SpectrumLayer[] => {
+    if (!fitTarget) return [];
+    return [
+      { id: 'fit-target', label: 'Target', points: fitTarget, color: MATCH_COLORS.target, variant: 'reference' },
+      { id: 'fit-residual', label: 'Residual', points: getFitResidual(bands, fitTarget, sampleRate), color: MATCH_COLORS.residual, variant: 'residual' },
+    ];
+  }, [fitTarget, bands, sampleRate]);
+
+  // Room on the right of the plot for the phase and group delay axes
+  const graphMargin = useMemo(
+    () => ({ ...GRAPH_MARGIN, right: GRAPH_MARGIN.right + RIGHT_AXIS_WIDTH * (Number(showPhase) + Number(showGroupDelay)) }),
+    [showPhase, showGroupDelay]
+  );
+
+  // --- AUDIO ENGINE ---
+  useEffect(() => {
+    const engine = new AudioEngine();
+    audioEngineRef.current = engine;
+    setContextSampleRate(engine.context.sampleRate);
+    playerRef.current = new AudioFilePlayer(engine.context, engine.input);
+    liveInputRef.current = new LiveInput(engine.context, engine.input);
+    engine.onFirCheck = setFirMagnitudeError;
+
+    engine.ready.catch((error) => {
+      console.error('Failed to load the EQ processor', error);
+      if (audioEngineRef.current === engine) setEngineError(error instanceof Error ? error.message : 'The EQ processor could not be loaded');
+    });
+
+    // The AudioContext can only start after a user gesture
+    const resume = () => { resumeEngine(engine); };
+    window.addEventListener('pointerdown', resume, { once: true });
+
+    return () => {
+      window.removeEventListener('pointerdown', resume);
+      playerRef.current?.dispose();
+      playerRef.current = null;
+      liveInputRef.current?.dispose();
+      liveInputRef.current = null;
+      engine.dispose();
+      audioEngineRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    audioEngineRef.current?.update(effectiveBands, effectiveMasterGain);
+  }, [effectiveBands, effectiveMasterGain]);
+
+  useEffect(() => {
+    audioEngineRef.current?.setProcessing(processing);
+    setFirMagnitudeError(null);
+  }, [processing]);
+
+  const handleProcessingMenuOpen = useCallback((isOpen: boolean) => {
+    if (isOpen) setFirMagnitudeError(null);
+    audioEngineRef.current?.setFirCheck(isOpen);
+  }, []);
+
+  useEffect(() => {
+    audioEngineRef.current?.setAnalyzerSettings(analyzerSettings);
+  }, [analyzerSettings]);
+
+  // "Analyse only" must never put the input on the speakers. The input and a file share the EQ,
+  // so while a file plays the input is suspended; otherwise the speakers are muted
+  const isLiveInputSuspended = showLiveInput && !monitorLiveInput && isFilePlaying;
+
+  useEffect(() => {
+    liveInputRef.current?.setSuspended(isLiveInputSuspended);
+    audioEngineRef.current?.setMonitoring(!showLiveInput || monitorLiveInput || isLiveInputSuspended);
+  }, [showLiveInput, monitorLiveInput, isLiveInputSuspended]);
+
   // Use a ref for calculation inside the loop to avoid dependency staleness issues if we were to use just state
   // But since we trigger re-render on state change, standard flow is okay.
-  // We compute dynamic physics inside the loop.
+  // Dynamic gain reduction is read from the audio engine inside the loop.
 
   useEffect(() => {
     const loop = () => {
-      // 1. Generate Spectrum (RTA)
-      const newSpectrum = generateSimulatedSpectrum(
-        effectiveBands,
-        effectiveMasterGain,
-        MIN_FREQ,
-        MAX_FREQ,
-        NUM_SPECTRUM_POINTS,
-        prevSpectrumRef.current,
+      const engine = audioEngineRef.current;
+
+      // 1. Spectrum (RTA) after and before the EQ, with meter ballistics on top of the analyzer's averaging
+      const now = performance.now();
+      const elapsed = Math.min(0.1, (now - lastFrameRef.current) / 1000);
+      lastFrameRef.current = now;
+
+      const toDisplay = (levels: FrequencyPoint[], previous: FrequencyPoint[]): FrequencyPoint[] => applySpectrumBallistics(
+        levels.map(point => ({ ...point, gain: point.gain + SPECTRUM_DISPLAY_OFFSET })),
+        previous,
         analyzerSmoothing
       );
-      
-      prevSpectrumRef.current = newSpectrum;
-      setSpectrumData(newSpectrum);
-
-      // 2. Calculate Dynamic EQ Physics
-      // Modify band gains based on the spectrum level at their frequency
+      const outputLevels = engine ? engine.getSpectrum(MIN_FREQ, MAX_FREQ, NUM_SPECTRUM_POINTS) : [];
+      const outputSpectrum = toDisplay(outputLevels, prevSpectrumRef.current);
+      const inputSpectrum = engine && showInputSpectrum
+        ? toDisplay(engine.getSpectrum(MIN_FREQ, MAX_FREQ, NUM_SPECTRUM_POINTS, 'input'), prevInputSpectrumRef.current)
+        : [];
+      prevSpectrumRef.current = outputSpectrum;
+      prevInputSpectrumRef.current = inputSpectrum;
+
+      const peaks = peakHoldRef.current;
+      peakHoldRef.current = showPeakHold
+        ? {
+            input: updatePeakHold(inputSpectrum, peaks.input, PEAK_HOLD_DECAY * elapsed),
+            output: updatePeakHold(outputSpectrum, peaks.output, PEAK_HOLD_DECAY * elapsed),
+          }
+        : { input: [], output: [] };
+
+      setLiveSpectra([
+        { id: 'output', label: 'Post EQ', points: outputSpectrum, color: SPECTRUM_COLORS.output, variant: 'area' },
+        { id: 'input', label: 'Pre EQ', points: inputSpectrum, color: SPECTRUM_COLORS.input, variant: 'line' },
+        { id: 'output-peak', label: 'Post Peak', points: peakHoldRef.current.output, color: SPECTRUM_COLORS.output, variant: 'peak' },
+        { id: 'input-peak', label: 'Pre Peak', points: peakHoldRef.current.input, color: SPECTRUM_COLORS.input, variant: 'peak' },
+      ]);
+      // The spectrogram gets the analyzer's own averaging but not the meter ballistics
+      if (spectrogramSettings.enabled) setSpectrogramFrame(outputLevels);
+
+      if (engine) {
+        const offset = engine.updateLevelMatch(bypass, levelMatch);
+        setLevelOffset(prev => (Math.abs(prev - offset) > 0.05 ? offset : prev));
+      }
+
+      // 2. Dynamic EQ
+      // The detector runs in the audio processor; here we only pick up the gain reduction
+      // it last reported so the drawn curve follows what is being heard.
       const dynamicBands = effectiveBands.map(band => {
-         if (!band.enabled || !band.isDynamic) return band;
-
-         // Map frequency to spectrum index
-         const logMin = Math.log10(MIN_FREQ);
-         const logMax = Math.log10(MAX_FREQ);
-         const logFreq = Math.log10(band.frequency);
-         const fraction = (logFreq - logMin) / (logMax - logMin);
-         const index = Math.max(0, Math.min(NUM_SPECTRUM_POINTS - 1, Math.floor(fraction * NUM_SPECTRUM_POINTS)));
-         
-         const level = newSpectrum[index]?.gain || -100;
-
-         // Dynamic Physics:
-         // Threshold around -50dB. 
-         // If level > -50dB, apply reduction/expansion.
-         // Normalize intensity (0.0 to 1.0) based on how loud it is (max 0dB)
-         const intensity = Math.max(0, (level + 50) / 50); 
-         
-         // Max dynamic throw depends on user setting (default 6dB)
-         const range = band.dynamicRange || 6; 
-         const offset = intensity * range;
-
-         let dynamicGain = band.gain;
-
-         if (band.gain > 0) {
-             // Boosting: Compress (reduce gain) on peaks
-             dynamicGain = Math.max(0, band.gain - offset);
-         } else if (band.gain < 0) {
-             // Cutting: Expand (cut deeper) on peaks
-             dynamicGain = band.gain - offset;
-         }
-         // If gain is 0, do nothing or maybe just jitter? Let's stay 0.
-
-         return { ...band, gain: dynamicGain };
+         if (!band.enabled || !band.isDynamic || !engine) return band;
+         return { ...band, gain: band.gain + engine.getGainReduction(band.id) };
       });
 
       // 3. Calculate Curve using Dynamic Bands
@@ -165,7 +319,9 @@ const App: React.FC = () => {
         effectiveMasterGain,
         MIN_FREQ,
         MAX_FREQ,
-        NUM_FREQUENCY_POINTS
+        NUM_FREQUENCY_POINTS,
+        sampleRate,
+        processing
       );
       
       setFrequencyResponseData(newCurve);
@@ -178,58 +334,196 @@ const App: React.FC = () => {
     return () => {
       if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
     };
-  }, [effectiveBands, effectiveMasterGain, analyzerSmoothing]); 
+  }, [effectiveBands, effectiveMasterGain, analyzerSmoothing, sampleRate, processing, audioFile, showLiveInput, bypass, levelMatch, showInputSpectrum, showPeakHold, spectrogramSettings.enabled]);
 
   // --- HANDLERS ---
+  // Audio files dropped on the graph are played through the EQ
+  const handleFileDrop = useCallback(async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    const engine = audioEngineRef.current;
+    const player = playerRef.current;
+    if (!file || !engine || !player) return;
+
+    try {
+      await engine.resume();
+      const buffer = await player.load(file);
+      setAudioFile({ name: file.name, buffer });
+    } catch (error) {
+      console.error(`Failed to load audio file "${file.name}"`, error);
+    }
+  }, []);
+
+  const handleFileDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFile(true);
+  }, []);
+
+  const handleFileEject = useCallback(() => {
+    playerRef.current?.dispose();
+    setAudioFile(null);
+    setIsFilePlaying(false);
+  }, []);
+
+  // Every edit of bands or master gain goes through here so it lands in the undo history
+  const applyEdit = useCallback((label: string, update: (snapshot: EQSnapshot) => EQSnapshot, mergeKey?: string) => {
+    setHistory((prev) => pushHistory(prev, update(prev.present.snapshot), label, mergeKey));
+  }, []);
+
+  // Edits with a merge key keep replacing one undo step until the gesture ends
+  const handleEditEnd = useCallback(() => setHistory(endGesture), []);
+
   const handleBandChange = useCallback((id: number, updatedBand: Partial<EQBand>) => {
-    setBands((prevBands) =>
-      prevBands.map((band) =>
+    const { label, mergeKey } = describeBandChange(id, updatedBand);
+    applyEdit(label, (snapshot) => ({
+      ...snapshot,
+      bands: snapshot.bands.map((band) =>
         band.id === id ? { ...band, ...updatedBand } : band
-      )
-    );
-  }, []);
+      ),
+    }), mergeKey);
+  }, [applyEdit]);
+
+  const handleMasterGainChange = useCallback((value: number) => {
+    applyEdit('Output Gain', (snapshot) => ({ ...snapshot, masterGain: value }), 'master-gain');
+  }, [applyEdit]);
+
+  const handleUndo = useCallback(() => setHistory(undo), []);
+  const handleRedo = useCallback(() => setHistory(redo), []);
 
   const handleBandSelect = useCallback((id: number) => {
     setSelectedBandId(id);
   }, []);
 
+  const handleBandAdd = useCallback((frequency: number, gain: number) => {
+    const band = createBand(bands, frequency, gain);
+    if (!band) return;
+    applyEdit(`Add Band ${band.id}`, (snapshot) => ({ ...snapshot, bands: [...snapshot.bands, band] }));
+    setSelectedBandId(band.id);
+  }, [bands, applyEdit]);
+
+  const handleMatchFit = useCallback((fitted: EQBand[]) => {
+    applyEdit('Match EQ', (snapshot) => ({ ...snapshot, bands: fitted }));
+  }, [applyEdit]);
+
+  const handleAutoFit = useCallback((fitted: EQBand[]) => {
+    applyEdit('Auto-Fit', (snapshot) => ({ ...snapshot, bands: fitted }));
+    setSelectedBandId((selected) => (fitted.some((band) => band.id === selected) ? selected : null));
+  }, [applyEdit]);
+
+  const handleBandRemove = useCallback((id: number) => {
+    applyEdit(`Remove Band ${id}`, (snapshot) => ({ ...snapshot, bands: snapshot.bands.filter((band) => band.id !== id) }));
+    setSelectedBandId((selected) => (selected === id ? null : selected));
+    setHoveredBandId((hovered) => (hovered === id ? null : hovered));
+  }, [applyEdit]);
+
+  const isModalOpen = showPresets || showDownloadModal || showCoefficientModal || showRenderModal;
+
+  // Delete / Backspace removes the selected band, but only with the focus on the graph, the band
+  // controls or nothing at all (not while typing in a field, in a panel or behind a modal)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Delete' && event.key !== 'Backspace') return;
+      if (isModalOpen || selectedBandId === null) return;
+      const target = event.target as HTMLElement;
+      if (['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return;
+      const inBandArea = graphAreaRef.current?.contains(target) || bandControlsRef.current?.contains(target);
+      if (target !== document.body && !inBandArea) return;
+      handleBandRemove(selectedBandId);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedBandId, handleBandRemove, isModalOpen]);
+
+  // Ctrl+Z undo, Ctrl+Shift+Z / Ctrl+Y redo (Cmd on macOS). Text fields keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const target = event.target as HTMLElement;
+      if (target.tagName === 'INPUT' && (target as HTMLInputElement).type !== 'range') return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // --- A/B SLOTS ---
+  // Slots with the working copy stored in the active one. An untouched morph result is
+  // not stored, so the morph endpoints stay where they were.
+  const getCommittedSlots = (): (EQSnapshot | null)[] => {
+    if (history.present.label === MORPH_LABEL) return [...slots];
+    return slots.map((slot, index) => (index === activeSlot ? history.present.snapshot : slot));
+  };
+
+  const handleSlotSwitch = (index: number) => {
+    if (index === activeSlot) return;
+    const committed = getCommittedSlots();
+    // An empty slot starts as a copy of the current curve
+    const target = committed[index] ?? history.present.snapshot;
+    committed[index] = target;
+    setSlots(committed);
+    setActiveSlot(index);
+    applyEdit(`Slot ${SLOT_NAMES[index]}`, () => target);
+  };
+
+  const handleSlotCopy = (from: number, to: number) => {
+    const committed = getCommittedSlots();
+    const source = committed[from] ?? history.present.snapshot;
+    committed[to] = source;
+    setSlots(committed);
+    if (to === activeSlot) applyEdit(`Copy ${SLOT_NAMES[from]} → ${SLOT_NAMES[to]}`, () => source);
+  };
+
+  const handleMorphChange = (next: MorphSettings) => {
+    setMorph(next);
+    const committed = getCommittedSlots();
+    setSlots(committed);
+    const from = committed[next.from] ?? history.present.snapshot;
+    const to = committed[next.to] ?? history.present.snapshot;
+    applyEdit(MORPH_LABEL, () => interpolateSnapshots(from, to, next.amount), 'morph');
+  };
+
   // Initialize presets
   useEffect(() => {
     const stored = loadPresetsFromLocalStorage();
-    if (stored) setPresets(stored);
+    if (!stored) return;
+    setPresets(stored);
+    setPresetsLoaded(true);
   }, []);
-  useEffect(() => { savePresetsToLocalStorage(presets); }, [presets]);
+  useEffect(() => {
+    if (presetsLoaded) savePresetsToLocalStorage(presets);
+  }, [presets, presetsLoaded]);
 
-  const savePreset = () => {
-    if (!currentPresetName) return;
-    setPresets([...presets, { id: Date.now().toString(), name: currentPresetName, bands, masterGain }]);
-    setCurrentPresetName('');
-    setShowPresets(false);
-  };
+  const loadedPreset = useMemo(
+    () => presets.find(p => p.id === loadedPresetId) ?? FACTORY_PRESETS.find(p => p.id === loadedPresetId),
+    [presets, loadedPresetId],
+  );
+  const isPresetModified = useMemo(
+    () => !!loadedPreset && !snapshotsMatch(loadedPreset, history.present.snapshot),
+    [loadedPreset, history.present.snapshot],
+  );
 
   const loadPreset = (preset: EQPreset) => {
-    setBands(preset.bands);
-    setMasterGain(preset.masterGain);
+    applyEdit(`Load "${preset.name}"`, () => ({ bands: preset.bands, masterGain: preset.masterGain }));
+    setLoadedPresetId(preset.id);
     setShowPresets(false);
   };
 
-  const handleDownloadSource = () => {
-    const downloadFile = (filename: string, content: string) => {
-      const element = document.createElement('a');
-      const file = new Blob([content], {type: 'text/plain'});
-      element.href = URL.createObjectURL(file);
-      element.download = filename;
-      document.body.appendChild(element);
-      element.click();
-      document.body.removeChild(element);
-    };
-
-    downloadFile('PluginProcessor.h', PLUGIN_PROCESSOR_H);
-    downloadFile('PluginProcessor.cpp', PLUGIN_PROCESSOR_CPP);
-    downloadFile('PluginEditor.h', PLUGIN_EDITOR_H);
-    downloadFile('PluginEditor.cpp', PLUGIN_EDITOR_CPP);
-    
-    alert('Started download of 4 source files. Please open JUCE Projucer to compile them.');
+  // The live curve first (it becomes the plugin's default state), then the preset banks as programs
+  const getPluginPrograms = (): PluginProgram[] => {
+    const currentName = loadedPreset ? `${loadedPreset.name}${isPresetModified ? ' (edited)' : ''}` : 'Current';
+    const others = [...presets, ...FACTORY_PRESETS].filter(p => isPresetModified || p.id !== loadedPreset?.id);
+    return [{ name: currentName, bands, masterGain }, ...others];
   };
 
   const selectedBand = useMemo(() => bands.find(b => b.id === selectedBandId), [bands, selectedBandId]);
@@ -260,22 +554,94 @@ const App: React.FC = () => {
 
           <div className="h-6 w-px bg-slate-700 mx-1"></div>
 
+          {/* Live Input Button */}
+          <button
+             onClick={() => {
+               if (audioEngineRef.current) resumeEngine(audioEngineRef.current);
+               setShowLiveInput(!showLiveInput);
+             }}
+             className={`p-1.5 rounded-full border transition-colors ${showLiveInput ? 'bg-red-500/20 border-red-500 text-red-400' : 'bg-slate-800/80 border-slate-700 text-slate-400 hover:text-white'}`}
+             title="Live Input (microphone / line in)"
+          >
+             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z"></path></svg>
+          </button>
+
+          <button
+             onClick={() => { setShowMatchEQ(!showMatchEQ); setShowAutoFit(false); }}
+             className={`px-3 py-1.5 rounded-full border text-xs font-bold transition-colors ${showMatchEQ ? 'bg-emerald-500/20 border-emerald-500 text-emerald-300' : 'bg-slate-800/80 border-slate-700 text-slate-300 hover:text-white'}`}
+             title="Match the tone of a reference track"
+          >
+             Match
+          </button>
+
+          <button
+             onClick={() => { setShowAutoFit(!showAutoFit); setShowMatchEQ(false); }}
+             className={`px-3 py-1.5 rounded-full border text-xs font-bold transition-colors ${showAutoFit ? 'bg-emerald-500/20 border-emerald-500 text-emerald-300' : 'bg-slate-800/80 border-slate-700 text-slate-300 hover:text-white'}`}
+             title="Fit bands to an imported target curve"
+          >
+             Auto-Fit
+          </button>
+
           {/* Download VST Button */}
           <button 
              onClick={() => setShowDownloadModal(true)}
              className="flex items-center space-x-2 px-4 py-1.5 bg-blue-600 hover:bg-blue-500 text-white rounded-full text-xs font-bold transition-all shadow-[0_0_15px_rgba(37,99,235,0.3)] hover:shadow-[0_0_20px_rgba(37,99,235,0.5)]"
           >
              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"></path></svg>
-             <span>Download VST3</span>
+             <span>Export Plugin</span>
+          </button>
+
+          <button
+             onClick={() => setShowCoefficientModal(true)}
+             className="px-3 py-1.5 bg-slate-800/80 hover:bg-slate-700 border border-slate-700 text-slate-300 hover:text-white rounded-full text-xs font-bold transition-colors"
+             title="Export biquad coefficients for CamillaDSP, miniDSP or CSV"
+          >
+             Coefficients
+          </button>
+
+          <button
+             onClick={() => setShowRenderModal(true)}
+             className="px-3 py-1.5 bg-slate-800/80 hover:bg-slate-700 border border-slate-700 text-slate-300 hover:text-white rounded-full text-xs font-bold transition-colors"
+             title="Render an audio file through the EQ and download it as WAV"
+          >
+             Render
           </button>
 
           <div className="h-6 w-px bg-slate-700 mx-2"></div>
 
+          {/* Undo / Redo / History */}
+          <div className="flex items-center bg-slate-800/80 rounded-full border border-slate-700">
+            <button
+              onClick={handleUndo}
+              disabled={history.past.length === 0}
+              className="px-2 py-1 text-slate-300 hover:text-white disabled:text-slate-600 transition-colors"
+              title="Undo (Ctrl+Z)"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6"></path></svg>
+            </button>
+            <button
+              onClick={handleRedo}
+              disabled={history.future.length === 0}
+              className="px-2 py-1 text-slate-300 hover:text-white disabled:text-slate-600 transition-colors"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6"></path></svg>
+            </button>
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className={`px-2 py-1 text-xs font-medium border-l border-slate-700 transition-colors ${showHistory ? 'text-blue-200' : 'text-slate-400 hover:text-white'}`}
+            >
+              History
+            </button>
+          </div>
+
           <button 
             onClick={() => setShowPresets(!showPresets)}
-            className="px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded-full border border-slate-700 text-xs font-medium transition-colors"
+            className="px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded-full border border-slate-700 text-xs font-medium transition-colors max-w-[12rem] truncate"
+            title={loadedPreset ? `${loadedPreset.name}${isPresetModified ? ' (modified)' : ''}` : undefined}
           >
-            Presets
+            {loadedPreset ? loadedPreset.name : 'Presets'}
+            {isPresetModified && <span className="text-amber-400">{' *'}</span>}
           </button>
 
           {/* Analyzer Toggle */}
@@ -294,14 +660,73 @@ const App: React.FC = () => {
                 value={analyzerSmoothing} onChange={(e) => setAnalyzerSmoothing(parseFloat(e.target.value))}
                 className="w-16 h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer"
              />
+             <button
+                onClick={() => setFrozenSpectrum(frozenSpectrum ? null : prevSpectrumRef.current)}
+                className={`text-xs font-medium transition-colors ${frozenSpectrum ? 'text-fuchsia-300 hover:text-white' : 'text-slate-400 hover:text-white'}`}
+                title={frozenSpectrum ? 'Clear the frozen reference trace' : 'Freeze the current output spectrum as a reference trace'}
+             >
+                {frozenSpectrum ? 'Unfreeze' : 'Freeze'}
+             </button>
+             <AnalyzerSettingsMenu
+                settings={analyzerSettings}
+                sampleRate={contextSampleRate}
+                onChange={setAnalyzerSettings}
+                showInput={showInputSpectrum}
+                onShowInputChange={setShowInputSpectrum}
+                showPeakHold={showPeakHold}
+                onShowPeakHoldChange={setShowPeakHold}
+                spectrogram={spectrogramSettings}
+                onSpectrogramChange={setSpectrogramSettings}
+             />
           </div>
           
+          {/* Phase / Group Delay traces */}
+          <div className="flex items-center bg-slate-800/80 rounded-full border border-slate-700" title="Phase and group delay of the EQ curve">
+            <button
+              onClick={() => setShowPhase(!showPhase)}
+              className={`px-3 py-1 text-xs font-medium transition-colors ${showPhase ? '' : 'text-slate-400 hover:text-white'}`}
+              style={showPhase ? { color: PHASE_COLOR } : undefined}
+            >
+              Phase
+            </button>
+            <button
+              onClick={() => setShowGroupDelay(!showGroupDelay)}
+              className={`px-3 py-1 text-xs font-medium border-l border-slate-700 transition-colors ${showGroupDelay ? '' : 'text-slate-400 hover:text-white'}`}
+              style={showGroupDelay ? { color: GROUP_DELAY_COLOR } : undefined}
+            >
+              Delay
+            </button>
+          </div>
+
+          <ProcessingModeMenu
+            settings={processing}
+            onChange={setProcessing}
+            bands={effectiveBands}
+            sampleRate={contextSampleRate}
+            magnitudeError={firMagnitudeError}
+            onOpenChange={handleProcessingMenuOpen}
+          />
+
+          {/* Sample Rate used to design the filters drawn on the graph */}
+          <div className="flex items-center space-x-2 bg-slate-800/80 rounded-full px-3 py-1 border border-slate-700" title="Design Sample Rate">
+             <span className="text-xs text-slate-400">Rate</span>
+             <select
+                value={sampleRate} onChange={(e) => setSampleRate(parseInt(e.target.value, 10))}
+                className="bg-transparent text-xs font-mono focus:outline-none cursor-pointer"
+             >
+                {SAMPLE_RATES.map(rate => (
+                  <option key={rate} value={rate} className="bg-slate-900">{(rate / 1000).toFixed(1)}k</option>
+                ))}
+             </select>
+          </div>
+
           {/* Master Gain */}
           <div className="flex items-center space-x-2 bg-slate-800/80 rounded-full px-3 py-1 border border-slate-700">
              <span className="text-xs text-slate-400">Output</span>
              <input 
                 type="range" min="-12" max="12" step="0.1" 
-                value={masterGain} onChange={(e) => setMasterGain(parseFloat(e.target.value))}
+                value={masterGain} onChange={(e) => handleMasterGainChange(parseFloat(e.target.value))}
+                onPointerUp={handleEditEnd} onKeyUp={handleEditEnd}
                 className="w-16 h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer"
              />
              <span className="text-xs font-mono w-8 text-right">{masterGain > 0 ? '+' : ''}{masterGain.toFixed(1)}</span>
@@ -326,8 +751,38 @@ const App: React.FC = () => {
         </div>
       </div>
 
+      {/* A/B COMPARE */}
+      <div className="absolute top-20 left-1/2 -translate-x-1/2 z-30">
+        <ComparePanel
+          slots={slots}
+          activeSlot={activeSlot}
+          morph={morph}
+          onSlotSwitch={handleSlotSwitch}
+          onSlotCopy={handleSlotCopy}
+          onMorphChange={handleMorphChange}
+          onMorphEnd={handleEditEnd}
+        />
+      </div>
+
+      {/* HISTORY LIST */}
+      {showHistory && (
+        <div className="absolute top-20 right-4 z-40">
+          <HistoryPanel
+            history={history}
+            onJump={(index) => setHistory((prev) => jumpToHistory(prev, index))}
+            onClose={() => setShowHistory(false)}
+          />
+        </div>
+      )}
+
       {/* MAIN GRAPH AREA */}
-      <div className="flex-grow w-full relative z-10">
+      <div
+        ref={graphAreaRef}
+        className="flex-grow w-full relative z-10"
+        onDragOver={handleFileDragOver}
+        onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFile(false); }}
+        onDrop={handleFileDrop}
+      >
         {/* Click background to deselect */}
         <div className="absolute inset-0" onClick={() => setSelectedBandId(null)}></div>
         
@@ -338,19 +793,48 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {/* Drop Target Overlay */}
+        {isDraggingFile && (
+          <div className="absolute inset-4 z-30 border-2 border-dashed border-blue-500 rounded-xl bg-blue-500/10 flex items-center justify-center pointer-events-none">
+            <span className="text-blue-300 font-bold tracking-wider">Drop an audio file to play it through the EQ</span>
+          </div>
+        )}
+
+        {engineError && (
+          <div className="absolute top-8 left-1/2 -translate-x-1/2 z-20 max-w-lg px-3 py-2 rounded-lg border border-amber-500/50 bg-slate-900/90 text-xs text-amber-300 text-center pointer-events-none">
+            Audio processing is unavailable, so playback and live input are not equalised. {engineError}.
+          </div>
+        )}
+
+        {showAnalyzer && !audioFile && !showLiveInput && !isDraggingFile && !engineError && (
+          <div className="absolute top-8 left-1/2 -translate-x-1/2 z-10 text-xs text-slate-500 pointer-events-none">
+            Drop an audio file or open a live input to analyse it
+          </div>
+        )}
+
+        {spectrogramSettings.enabled && <Spectrogram spectrum={spectrogramFrame} settings={spectrogramSettings} margin={graphMargin} />}
+
         <FrequencyResponseGraph 
           data={frequencyResponseData} 
-          spectrumData={showAnalyzer ? spectrumData : []}
+          spectrumLayers={spectrumLayers}
+          spectrumOffset={SPECTRUM_DISPLAY_OFFSET}
+          overlayLayers={targetLayers}
+          transparent={spectrogramSettings.enabled}
+          showPhase={showPhase}
+          showGroupDelay={showGroupDelay}
+          margin={graphMargin}
           bands={bands} // Pass REAL bands so handles stay visible/editable at user position
           selectedBandId={selectedBandId}
           onBandChange={handleBandChange}
+          onBandChangeEnd={handleEditEnd}
           onBandSelect={handleBandSelect}
           onBandHover={setHoveredBandId}
+          onBandAdd={handleBandAdd}
         />
       </div>
 
       {/* FOOTER / CONTROLS */}
-      <div className="absolute bottom-0 w-full z-30 pointer-events-none flex flex-col items-center pb-8">
+      <div ref={bandControlsRef} className="absolute bottom-0 w-full z-30 pointer-events-none flex flex-col items-center pb-8">
         
         {/* Band Selection Strip (Mini indicators) */}
         <div className="flex space-x-2 mb-4 pointer-events-auto bg-slate-900/50 backdrop-blur-sm p-2 rounded-full border border-slate-800/50">
@@ -380,106 +864,102 @@ const App: React.FC = () => {
         {/* Selected Band Inspector */}
         {selectedBand && (
            <div className="pointer-events-auto">
-             <EQBandControl band={selectedBand} onBandChange={handleBandChange} />
+             <EQBandControl band={selectedBand} onBandChange={handleBandChange} onBandChangeEnd={handleEditEnd} onBandRemove={handleBandRemove} />
            </div>
         )}
       </div>
 
+      {/* SIDE PANELS: EQ matching / auto-fit, live input and file player */}
+      <div className="absolute bottom-4 left-4 z-30 flex flex-col gap-2">
+        {showMatchEQ && (
+          <MatchEQPanel
+            sourceBuffer={audioFile?.buffer ?? null}
+            sourceName={audioFile?.name}
+            bands={bands}
+            sampleRate={sampleRate}
+            onTargetChange={setFitTarget}
+            onApplyFit={handleMatchFit}
+            onClose={() => setShowMatchEQ(false)}
+          />
+        )}
+        {showAutoFit && (
+          <AutoFitPanel
+            bands={bands}
+            sampleRate={sampleRate}
+            onTargetChange={setFitTarget}
+            onApplyFit={handleAutoFit}
+            onClose={() => setShowAutoFit(false)}
+          />
+        )}
+        {showLiveInput && liveInputRef.current && (
+          <LiveInputPanel
+            liveInput={liveInputRef.current}
+            monitor={monitorLiveInput}
+            suspended={isLiveInputSuspended}
+            onMonitorChange={setMonitorLiveInput}
+            onClose={() => setShowLiveInput(false)}
+          />
+        )}
+        {audioFile && playerRef.current && (
+          <AudioPlayerBar
+            player={playerRef.current}
+            buffer={audioFile.buffer}
+            fileName={audioFile.name}
+            bypass={bypass}
+            onBypassChange={setBypass}
+            levelMatch={levelMatch}
+            onLevelMatchChange={setLevelMatch}
+            levelOffset={levelOffset}
+            onPlayingChange={setIsFilePlaying}
+            onEject={handleFileEject}
+          />
+        )}
+      </div>
+
       {/* PRESETS MODAL */}
       {showPresets && (
-        <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
-          <div className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl max-w-md w-full p-6">
-            <h2 className="text-xl font-bold mb-4">Presets</h2>
-            <div className="flex space-x-2 mb-4">
-               <input 
-                 value={currentPresetName} onChange={e => setCurrentPresetName(e.target.value)}
-                 className="flex-1 bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
-                 placeholder="New Preset Name"
-               />
-               <button onClick={savePreset} className="bg-blue-600 hover:bg-blue-500 px-4 py-2 rounded text-sm font-bold">Save</button>
-            </div>
-            <div className="max-h-60 overflow-y-auto space-y-1">
-              {presets.map(p => (
-                <div key={p.id} className="flex justify-between items-center p-2 hover:bg-slate-800 rounded group cursor-pointer" onClick={() => loadPreset(p)}>
-                  <span>{p.name}</span>
-                  <div className="flex space-x-2">
-                    <span className="text-xs text-slate-500 opacity-0 group-hover:opacity-100">Load</span>
-                    <button 
-                      onClick={(e) => { e.stopPropagation(); setPresets(presets.filter(pr => pr.id !== p.id)); }}
-                      className="text-xs text-red-500 opacity-0 group-hover:opacity-100 hover:text-red-400"
-                    >
-                      Del
-                    </button>
-                  </div>
-                </div>
-              ))}
-              {presets.length === 0 && <p className="text-slate-500 text-sm">No presets saved.</p>}
-            </div>
-            <button onClick={() => setShowPresets(false)} className="mt-4 text-slate-400 hover:text-white text-sm w-full text-center">Close</button>
-          </div>
-        </div>
+        <PresetManager
+          presets={presets}
+          current={history.present.snapshot}
+          loadedPresetId={loadedPresetId}
+          isModified={isPresetModified}
+          onPresetsChange={setPresets}
+          onLoad={loadPreset}
+          onLoadedPresetChange={setLoadedPresetId}
+          onClose={() => setShowPresets(false)}
+        />
       )}
 
       {/* DOWNLOAD MODAL */}
       {showDownloadModal && (
-        <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
-          <div className="bg-slate-900 border border-slate-600 rounded-xl shadow-2xl max-w-lg w-full p-6 relative animate-fade-in-up">
-            <div className="flex items-start justify-between mb-4">
-               <div className="flex items-center gap-2">
-                 <div className="bg-blue-600 p-2 rounded-lg">
-                   <svg className="w-6 h-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19.428 15.428a2 2 0 00-1.022-.547l-2.384-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z"></path></svg>
-                 </div>
-                 <div>
-                   <h2 className="text-xl font-bold text-white">Export VST3</h2>
-                   <p className="text-xs text-slate-400">Target: FL Studio (Windows/Mac)</p>
-                 </div>
-               </div>
-               <button onClick={() => setShowDownloadModal(false)} className="text-slate-500 hover:text-white">
-                 <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
-               </button>
-            </div>
-            
-            <div className="space-y-4">
-               <div className="p-3 bg-red-900/30 border border-red-700/50 rounded text-sm text-red-200">
-                  <strong>Fixing 'juce' Errors:</strong> The errors you see ("'juce': no es un nombre de clase") occur because the C++ compiler cannot find the JUCE framework on your computer.
-               </div>
-               
-               <ol className="list-decimal list-inside text-xs text-slate-300 space-y-2 marker:text-blue-500">
-                  <li>Download and install <strong>JUCE Projucer</strong>.</li>
-                  <li>Open Projucer -> New Project -> <strong>Plug-in</strong> -> Basic.</li>
-                  <li>Name it <strong>VeviEqPro</strong>. Save it to a folder.</li>
-                  <li>Go to the folder, open <strong>Source</strong> directory.</li>
-                  <li>Replace the files with the source code downloaded below.</li>
-                  <li>Open the project in your IDE (Visual Studio / Xcode) via Projucer and Build.</li>
-               </ol>
-
-               <div className="pt-2">
-                 <a 
-                   href="https://github.com/vevikils/VeviMaster-IA"
-                   target="_blank"
-                   rel="noopener noreferrer"
-                   className="flex items-center gap-2 text-xs text-blue-400 hover:text-blue-300 underline"
-                 >
-                   <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path fillRule="evenodd" d="M12 2C6.477 2 2 6.484 2 12.017c0 4.425 2.865 8.18 6.839 9.504.5.092.682-.217.682-.483 0-.237-.008-.868-.013-1.703-2.782.605-3.369-1.343-3.369-1.343-.454-1.158-1.11-1.466-1.11-1.466-.908-.62.069-.608.069-.608 1.003.07 1.531 1.032 1.531 1.032.892 1.53 2.341 1.088 2.91.832.092-.647.35-1.088.636-1.338-2.22-.253-4.555-1.113-4.555-4.951 0-1.093.39-1.988 1.029-2.688-.103-.253-.446-1.272.098-2.65 0 0 .84-.27 2.75 1.026A9.564 9.564 0 0112 6.844c.85.004 1.705.115 2.504.337 1.909-1.296 2.747-1.027 2.747-1.027.546 1.379.202 2.398.1 2.651.64.7 1.028 1.595 1.028 2.688 0 3.848-2.339 4.695-4.566 4.943.359.309.678.92.678 1.855 0 1.338-.012 2.419-.012 2.747 0 .268.18.58.688.482A10.019 10.019 0 0022 12.017C22 6.484 17.522 2 12 2z" clipRule="evenodd"/></svg>
-                   Visit Official Repository on GitHub
-                 </a>
-               </div>
-            </div>
-
-            <div className="mt-6 flex flex-col gap-2">
-               <button onClick={handleDownloadSource} className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 text-white py-3 rounded-lg font-bold shadow-lg transition-all text-sm flex items-center justify-center gap-2">
-                 <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"></path></svg>
-                 Download C++ Source (.cpp / .h)
-               </button>
-               <button onClick={() => setShowDownloadModal(false)} className="text-slate-500 hover:text-white py-2 text-xs">Close</button>
-            </div>
-          </div>
-        </div>
+        <PluginExportModal programs={getPluginPrograms()} processing={processing} onClose={() => setShowDownloadModal(false)} />
+      )}
+
+      {/* COEFFICIENT EXPORT MODAL */}
+      {showCoefficientModal && (
+        <CoefficientExportModal
+          bands={bands}
+          masterGain={masterGain}
+          sampleRate={sampleRate}
+          name={loadedPreset?.name ?? 'VEVI EQ'}
+          onClose={() => setShowCoefficientModal(false)}
+        />
+      )}
+
+      {/* OFFLINE RENDER MODAL */}
+      {showRenderModal && (
+        <RenderModal
+          bands={effectiveBands}
+          masterGain={effectiveMasterGain}
+          processing={processing}
+          sampleRate={sampleRate}
+          onClose={() => setShowRenderModal(false)}
+        />
       )}
       
       {/* DISCLAIMER */}
       <div className="absolute bottom-1 right-2 z-50 pointer-events-none">
-        <p className="text-[10px] text-slate-600 opacity-50">VEVI EQ Pro (UI Demo) - Not a real VST</p>
+        <p className="text-[10px] text-slate-600 opacity-50">VEVI EQ Pro (Web Audio)</p>
       </div>
 
     </div>
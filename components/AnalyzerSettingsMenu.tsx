@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalyzerSettings, AnalyzerWindow, SpectrogramColorMap, SpectrogramSettings } from '../types';
+import { ANALYZER_FFT_SIZES, ANALYZER_WINDOWS, AVERAGING_TIMES, OCTAVE_SMOOTHING_OPTIONS, SPECTROGRAM_COLOR_MAPS, SPECTROGRAM_HISTORY_LENGTHS } from '../constants';
+
+interface AnalyzerSettingsMenuProps {
+  settings: AnalyzerSettings;
+  sampleRate: number; // Of the audio context, to show the frequency resolution
+  onChange: (settings: AnalyzerSettings) => void;
+  showInput: boolean;     // Pre-EQ trace
+  onShowInputChange: (show: boolean) => void;
+  showPeakHold: boolean;
+  onShowPeakHoldChange: (show: boolean) => void;
+  spectrogram: SpectrogramSettings;
+  onSpectrogramChange: (settings: SpectrogramSettings) => void;
+}
+
+const labelClass = 'block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1';
+const selectClass = 'w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs focus:outline-none focus:border-blue-500';
+
+const AnalyzerSettingsMenu: React.FC<AnalyzerSettingsMenuProps> = ({
+  settings,
+  sampleRate,
+  onChange,
+  showInput,
+  onShowInputChange,
+  showPeakHold,
+  onShowPeakHoldChange,
+  spectrogram,
+  onSpectrogramChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('pointerdown', handlePointerDown);
+    return () => window.removeEventListener('pointerdown', handlePointerDown);
+  }, [isOpen]);
+
+  const update = (changes: Partial<AnalyzerSettings>) => onChange({ ...settings, ...changes });
+  const updateSpectrogram = (changes: Partial<SpectrogramSettings>) => onSpectrogramChange({ ...spectrogram, ...changes });
+
+  return (
+    <div ref={containerRef} className="relative flex items-center">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`transition-colors ${isOpen ? 'text-blue-300' : 'text-slate-400 hover:text-white'}`}
+        title="Analyzer Settings"
+      >
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4"></path></svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-3 z-40 w-56 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl p-3 space-y-2 text-slate-200">
+          <div>
+            <label className={labelClass}>FFT Size</label>
+            <select value={settings.fftSize} onChange={e => update({ fftSize: parseInt(e.target.value, 10) })} className={selectClass}>
+              {ANALYZER_FFT_SIZES.map(size => (
+                <option key={size} value={size}>{size / 1024}k</option>
+              ))}
+            </select>
+            <p className="text-[10px] text-slate-500 mt-1">
+              {(sampleRate / settings.fftSize).toFixed(1)} Hz per bin, {Math.round((settings.fftSize / sampleRate) * 1000)} ms window
+            </p>
+          </div>
+
+          <div>
+            <label className={labelClass}>Window</label>
+            <select value={settings.window} onChange={e => update({ window: e.target.value as AnalyzerWindow })} className={selectClass}>
+              {ANALYZER_WINDOWS.map(w => <option key={w.value} value={w.value}>{w.label}</option>)}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={labelClass}>Smoothing</label>
+              <select value={settings.octaveSmoothing} onChange={e => update({ octaveSmoothing: parseInt(e.target.value, 10) })} className={selectClass}>
+                {OCTAVE_SMOOTHING_OPTIONS.map(n => <option key={n} value={n}>{n === 0 ? 'Off' : `1/${n} oct`}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Averaging</label>
+              <select value={settings.averagingTime} onChange={e => update({ averagingTime: parseFloat(e.target.value) })} className={selectClass}>
+                {AVERAGING_TIMES.map(t => <option key={t} value={t}>{t === 0 ? 'Off' : t < 1 ? `${t * 1000} ms` : `${t} s`}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex gap-4 text-xs">
+            <label className="flex items-center space-x-1.5 cursor-pointer">
+              <input type="checkbox" checked={showInput} onChange={e => onShowInputChange(e.target.checked)} className="accent-amber-500" />
+              <span>Pre EQ</span>
+            </label>
+            <label className="flex items-center space-x-1.5 cursor-pointer">
+              <input type="checkbox" checked={showPeakHold} onChange={e => onShowPeakHoldChange(e.target.checked)} className="accent-blue-500" />
+              <span>Peak Hold</span>
+            </label>
+          </div>
+
+          <div className="border-t border-slate-700 pt-2">
+            <label className="flex items-center space-x-1.5 text-xs cursor-pointer">
+              <input
+                type="checkbox" checked={spectrogram.enabled}
+                onChange={e => updateSpectrogram({ enabled: e.target.checked })} className="accent-blue-500"
+              />
+              <span>Spectrogram</span>
+            </label>
+            <div className={`grid grid-cols-2 gap-2 mt-2 ${spectrogram.enabled ? '' : 'opacity-40 pointer-events-none'}`}>
+              <div>
+                <label className={labelClass}>History</label>
+                <select
+                  value={spectrogram.historyLength}
+                  onChange={e => updateSpectrogram({ historyLength: parseFloat(e.target.value) })}
+                  className={selectClass}
+                >
+                  {SPECTROGRAM_HISTORY_LENGTHS.map(t => <option key={t} value={t}>{t} s</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Colours</label>
+                <select
+                  value={spectrogram.colorMap}
+                  onChange={e => updateSpectrogram({ colorMap: e.target.value as SpectrogramColorMap })}
+                  className={selectClass}
+                >
+                  {SPECTROGRAM_COLOR_MAPS.map(map => <option key={map.value} value={map.value}>{map.label}</option>)}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <p className="text-[10px] text-slate-500">Levels in dBFS (right-hand scale); a full-scale sine reads 0 dB.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalyzerSettingsMenu;
@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AudioFilePlayer, LoopRegion, MIN_LOOP_LENGTH, computeWaveformPeaks } from '../utils/audioPlayer';
+
+interface AudioPlayerBarProps {
+  player: AudioFilePlayer;
+  buffer: AudioBuffer;
+  fileName: string;
+  bypass: boolean;               // The global bypass, mirrored here for quick A/B
+  onBypassChange: (bypass: boolean) => void;
+  levelMatch: boolean;
+  onLevelMatchChange: (levelMatch: boolean) => void;
+  levelOffset: number;           // dB currently applied to the bypassed signal
+  onPlayingChange?: (playing: boolean) => void;
+  onEject: () => void;
+}
+
+const NUM_PEAKS = 300;
+
+const formatTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+const AudioPlayerBar: React.FC<AudioPlayerBarProps> = ({
+  player,
+  buffer,
+  fileName,
+  bypass,
+  onBypassChange,
+  levelMatch,
+  onLevelMatchChange,
+  levelOffset,
+  onPlayingChange,
+  onEject,
+}) => {
+  const [isPlaying, setIsPlaying] = useState(player.isPlaying);
+  const [currentTime, setCurrentTime] = useState(player.getCurrentTime());
+  const [loop, setLoop] = useState<LoopRegion | null>(null);
+  const [selection, setSelection] = useState<LoopRegion | null>(null); // Region being dragged
+  const waveformRef = useRef<HTMLDivElement>(null);
+  const dragStartRef = useRef<{ x: number; time: number } | null>(null);
+
+  const peaks = useMemo(() => computeWaveformPeaks(buffer, NUM_PEAKS), [buffer]);
+  const waveformPath = useMemo(() => {
+    const top = peaks.map((peak, i) => `${i},${(-peak.max).toFixed(3)}`);
+    const bottom = peaks.map((peak, i) => `${i},${(-peak.min).toFixed(3)}`).reverse();
+    return `M${top.join('L')}L${bottom.join('L')}Z`;
+  }, [peaks]);
+
+  // A new file starts without a loop
+  useEffect(() => {
+    setLoop(null);
+    setCurrentTime(0);
+  }, [buffer]);
+
+  useEffect(() => {
+    player.onEnded = () => setIsPlaying(false);
+    return () => { player.onEnded = null; };
+  }, [player]);
+
+  useEffect(() => { onPlayingChange?.(isPlaying); }, [isPlaying, onPlayingChange]);
+
+  // Follow the playhead while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      setCurrentTime(player.getCurrentTime());
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, player]);
+
+  const togglePlay = () => {
+    if (player.isPlaying) {
+      player.pause();
+      setIsPlaying(false);
+    } else {
+      player.play();
+      setIsPlaying(player.isPlaying);
+    }
+    setCurrentTime(player.getCurrentTime());
+  };
+
+  const applyLoop = (region: LoopRegion | null) => {
+    player.setLoop(region);
+    setLoop(region && region.end - region.start >= MIN_LOOP_LENGTH ? region : null);
+    setCurrentTime(player.getCurrentTime());
+  };
+
+  const timeAt = (clientX: number): number => {
+    const rect = waveformRef.current!.getBoundingClientRect();
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)) * buffer.duration;
+  };
+
+  // Click to seek, drag to select a loop region
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStartRef.current = { x: e.clientX, time: timeAt(e.clientX) };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStartRef.current;
+    if (!start || Math.abs(e.clientX - start.x) < 4) return;
+    const time = timeAt(e.clientX);
+    setSelection({ start: Math.min(start.time, time), end: Math.max(start.time, time) });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStartRef.current;
+    dragStartRef.current = null;
+    if (!start) return;
+
+    if (selection) {
+      applyLoop(selection);
+      setSelection(null);
+    } else {
+      player.seek(timeAt(e.clientX));
+      setCurrentTime(player.getCurrentTime());
+    }
+  };
+
+  const region = selection ?? loop;
+  const toPercent = (time: number) => `${(time / buffer.duration) * 100}%`;
+
+  return (
+    <div className="bg-slate-900/90 backdrop-blur-md border border-slate-700 rounded-xl shadow-2xl p-3 w-80 text-slate-200">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-bold truncate" title={fileName}>{fileName}</span>
+        <button onClick={onEject} className="text-slate-500 hover:text-white ml-2" title="Close file">
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+        </button>
+      </div>
+
+      {/* Waveform overview */}
+      <div
+        ref={waveformRef}
+        className="relative h-12 bg-slate-950 rounded cursor-pointer select-none overflow-hidden touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        title="Click to seek, drag to set a loop region"
+      >
+        {region && (
+          <div
+            className={`absolute inset-y-0 ${selection ? 'bg-blue-500/20' : 'bg-blue-500/30 border-x border-blue-400'}`}
+            style={{ left: toPercent(region.start), width: toPercent(region.end - region.start) }}
+          />
+        )}
+        <svg viewBox={`0 -1 ${NUM_PEAKS - 1} 2`} preserveAspectRatio="none" className="absolute inset-0 w-full h-full">
+          <path d={waveformPath} fill="#64748b" />
+        </svg>
+        <div className="absolute inset-y-0 w-px bg-white" style={{ left: toPercent(currentTime) }} />
+      </div>
+
+      <div className="flex items-center justify-between mt-2">
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={togglePlay}
+            className="w-8 h-8 rounded-full bg-blue-600 hover:bg-blue-500 flex items-center justify-center"
+            title={isPlaying ? 'Pause' : 'Play'}
+          >
+            {isPlaying ? (
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M6 5h4v14H6zM14 5h4v14h-4z" /></svg>
+            ) : (
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z" /></svg>
+            )}
+          </button>
+          <span className="text-[10px] font-mono text-slate-400">{formatTime(currentTime)} / {formatTime(buffer.duration)}</span>
+          {loop && (
+            <button onClick={() => applyLoop(null)} className="text-[10px] text-blue-300 hover:text-white" title="Clear loop region">
+              Loop {formatTime(loop.start)}-{formatTime(loop.end)} x
+            </button>
+          )}
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <label className="flex items-center space-x-1 text-[10px] text-slate-400 cursor-pointer" title="Match the loudness of the bypassed signal to the EQ'd one">
+            <input type="checkbox" checked={levelMatch} onChange={e => onLevelMatchChange(e.target.checked)} className="accent-blue-500" />
+            <span>Match</span>
+          </label>
+          <button
+            onClick={() => onBypassChange(!bypass)}
+            className={`px-2 py-0.5 rounded text-[10px] font-bold border transition-colors ${bypass ? 'bg-red-500/20 border-red-500 text-red-400' : 'border-slate-600 text-slate-400 hover:text-white'}`}
+            title="Global Bypass"
+          >
+            {bypass ? `BYPASS${levelMatch ? ` ${levelOffset >= 0 ? '+' : ''}${levelOffset.toFixed(1)} dB` : ''}` : 'EQ ON'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AudioPlayerBar;
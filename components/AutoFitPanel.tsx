@@ -0,0 +1,175 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { EQBand, FrequencyPoint } from '../types';
+import { MAX_BANDS, NUM_MATCH_POINTS } from '../constants';
+import { parseTargetCurve, resampleTargetCurve } from '../utils/targetCurve';
+import { calculateRmsError, getFitResidual } from '../utils/curveFit';
+import { AutoFitJob, startAutoFit } from '../utils/autoFit';
+
+interface AutoFitPanelProps {
+  bands: EQBand[];
+  sampleRate: number;
+  onTargetChange: (target: FrequencyPoint[] | null) => void;
+  onApplyFit: (bands: EQBand[]) => void;
+  onClose: () => void;
+}
+
+const labelClass = 'block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1';
+
+const NORMALIZE_FREQUENCY = 1000; // Hz, where an imported curve is set to 0 dB
+
+const AutoFitPanel: React.FC<AutoFitPanelProps> = ({ bands, sampleRate, onTargetChange, onApplyFit, onClose }) => {
+  const [curve, setCurve] = useState<{ name: string; points: FrequencyPoint[] } | null>(null);
+  const [normalize, setNormalize] = useState(true);
+  const [numBands, setNumBands] = useState(8);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [fitError, setFitError] = useState<number | null>(null); // RMS error the running fit has reached
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const jobRef = useRef<AutoFitJob | null>(null);
+
+  const lockedCount = bands.filter(band => band.locked).length;
+  const maxNewBands = MAX_BANDS - lockedCount;
+
+  const target = useMemo(
+    () => (curve ? resampleTargetCurve(curve.points, NUM_MATCH_POINTS, normalize ? NORMALIZE_FREQUENCY : undefined) : null),
+    [curve, normalize]
+  );
+
+  useEffect(() => {
+    onTargetChange(target);
+  }, [target, onTargetChange]);
+  useEffect(() => () => {
+    onTargetChange(null);
+    jobRef.current?.cancel();
+  }, [onTargetChange]);
+
+  const rmsError = useMemo(
+    () => (target ? calculateRmsError(getFitResidual(bands, target, sampleRate)) : null),
+    [bands, target, sampleRate]
+  );
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const points = parseTargetCurve(await file.text());
+      if (points.length < 2) {
+        setError(`No frequency/dB pairs found in "${file.name}".`);
+        return;
+      }
+      setCurve({ name: file.name, points });
+    } catch (err) {
+      console.error('Failed to read target curve', err);
+      setError(`Could not read "${file.name}".`);
+    }
+  };
+
+  const handleFit = async () => {
+    if (!target) return;
+    setError(null);
+    setProgress(0);
+    setFitError(null);
+    const job = startAutoFit({ bands, target, numBands: Math.min(numBands, maxNewBands), sampleRate }, (value, rms) => {
+      setProgress(value);
+      setFitError(rms);
+    });
+    jobRef.current = job;
+    try {
+      const result = await job.result;
+      onApplyFit(result.bands);
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        console.error('Auto-fit failed', err);
+        setError('The fit failed.');
+      }
+    } finally {
+      if (jobRef.current === job) jobRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const isFitting = progress !== null;
+
+  return (
+    <div className="bg-slate-900/90 backdrop-blur-md border border-slate-700 rounded-xl shadow-2xl p-3 w-80 text-slate-200">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-bold">Auto-Fit Target Curve</span>
+        <button onClick={onClose} className="text-slate-500 hover:text-white" title="Close">
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <div>
+          <label className={labelClass}>Target</label>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isFitting}
+              className="px-2 py-1 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded text-xs disabled:opacity-40"
+            >
+              Import...
+            </button>
+            <span className="text-xs text-slate-400 truncate">
+              {curve ? `${curve.name} (${curve.points.length} points)` : 'CSV or text, frequency and dB per line'}
+            </span>
+            <input ref={fileInputRef} type="file" accept=".csv,.txt,text/plain,text/csv" onChange={handleFileChange} className="hidden" />
+          </div>
+          <label className="flex items-center space-x-1.5 text-[10px] text-slate-400 mt-1 cursor-pointer">
+            <input type="checkbox" checked={normalize} onChange={e => setNormalize(e.target.checked)} className="accent-blue-500" />
+            <span>Normalise to 0 dB at 1 kHz</span>
+          </label>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <label className="text-xs text-slate-400" htmlFor="auto-fit-bands">Bands to place</label>
+          <input
+            id="auto-fit-bands"
+            type="number" min={1} max={maxNewBands} step={1}
+            value={numBands}
+            onChange={e => setNumBands(Math.max(1, Math.min(maxNewBands, parseInt(e.target.value, 10) || 1)))}
+            className="w-14 bg-slate-800 border border-slate-700 rounded px-2 py-0.5 text-xs font-mono text-right focus:outline-none focus:border-blue-500"
+          />
+        </div>
+        <p className="text-[10px] text-slate-500">
+          {lockedCount > 0
+            ? `${lockedCount} locked band${lockedCount === 1 ? '' : 's'} kept as they are; all other bands are replaced.`
+            : 'All bands are replaced. Lock a band in its controls to keep it.'}
+        </p>
+
+        {isFitting && (
+          <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-500 transition-all" style={{ width: `${Math.round((progress ?? 0) * 100)}%` }} />
+          </div>
+        )}
+        {error && <p className="text-[10px] text-red-300">{error}</p>}
+
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] text-slate-400" title="RMS difference between the current bands and the target">
+            {isFitting
+              ? `Fitting...${fitError !== null ? ` ${fitError.toFixed(2)} dB RMS` : ''}`
+              : rmsError !== null ? `Error ${rmsError.toFixed(2)} dB RMS` : 'Import a target curve'}
+          </span>
+          {isFitting ? (
+            <button onClick={() => jobRef.current?.cancel()} className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs font-bold">
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={handleFit}
+              disabled={!target || maxNewBands < 1}
+              className="px-3 py-1 bg-blue-600 hover:bg-blue-500 rounded text-xs font-bold disabled:opacity-40"
+              title="Choose type, frequency, gain and Q of the unlocked bands to follow the target"
+            >
+              Fit
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AutoFitPanel;
@@ -0,0 +1,103 @@
+import React, { useMemo, useState } from 'react';
+import { EQBand } from '../types';
+import { SAMPLE_RATES } from '../constants';
+import { CoefficientFormat, COEFFICIENT_FORMATS, formatCoefficients } from '../utils/coefficientExport';
+import { downloadFile, toFileName } from '../utils/fileUtils';
+
+interface CoefficientExportModalProps {
+  bands: EQBand[];
+  masterGain: number;
+  sampleRate: number; // Initial choice, usually the engine's rate
+  name: string;       // Used for the file name
+  onClose: () => void;
+}
+
+const selectClass = 'w-full bg-slate-800 border border-slate-700 rounded px-3 py-1.5 text-sm focus:outline-none focus:border-blue-500';
+const labelClass = 'block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1';
+
+const CoefficientExportModal: React.FC<CoefficientExportModalProps> = ({ bands, masterGain, sampleRate: initialSampleRate, name, onClose }) => {
+  const [format, setFormat] = useState<CoefficientFormat>('camilladsp');
+  const [sampleRate, setSampleRate] = useState(initialSampleRate);
+  const [copied, setCopied] = useState(false);
+
+  const { text, warnings } = useMemo(
+    () => formatCoefficients(format, bands, masterGain, sampleRate),
+    [format, bands, masterGain, sampleRate],
+  );
+  const extension = COEFFICIENT_FORMATS.find(f => f.id === format)!.extension;
+
+  const handleDownload = () => {
+    downloadFile(toFileName(`${name} ${sampleRate}`, extension), text, format === 'csv' ? 'text/csv' : 'text/plain');
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('Failed to copy coefficients', error);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-600 rounded-xl shadow-2xl max-w-2xl w-full p-6 relative animate-fade-in-up">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">Export Coefficients</h2>
+            <p className="text-xs text-slate-400">Normalised biquads (a0 = 1) for hardware and Linux DSP</p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 mb-3">
+          <div>
+            <label className={labelClass}>Format</label>
+            <select value={format} onChange={e => setFormat(e.target.value as CoefficientFormat)} className={selectClass}>
+              {COEFFICIENT_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Sample Rate</label>
+            <select value={sampleRate} onChange={e => setSampleRate(parseInt(e.target.value, 10))} className={selectClass}>
+              {SAMPLE_RATES.map(rate => <option key={rate} value={rate}>{rate / 1000} kHz</option>)}
+            </select>
+          </div>
+        </div>
+
+        <textarea
+          readOnly
+          value={text}
+          className="w-full h-64 bg-slate-950 border border-slate-700 rounded p-2 font-mono text-[11px] text-slate-300 resize-none focus:outline-none"
+        />
+
+        {warnings.length > 0 && (
+          <ul className="mt-2 p-2 bg-amber-900/30 border border-amber-700/50 rounded text-xs text-amber-200 list-disc list-inside">
+            {warnings.map(warning => <li key={warning}>{warning}</li>)}
+          </ul>
+        )}
+
+        <div className="mt-4 flex gap-2">
+          <button
+            onClick={handleDownload}
+            className="flex-1 bg-blue-600 hover:bg-blue-500 text-white py-2 rounded-lg font-bold text-sm transition-colors"
+          >
+            Download .{extension}
+          </button>
+          <button
+            onClick={handleCopy}
+            className="px-4 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-200 py-2 rounded-lg text-sm transition-colors"
+          >
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+          <button onClick={onClose} className="px-4 text-slate-500 hover:text-white py-2 text-xs">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CoefficientExportModal;
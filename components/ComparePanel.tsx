@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { EQSnapshot } from '../utils/history';
+import { SLOT_NAMES } from '../constants';
+
+export interface MorphSettings {
+  from: number;
+  to: number;
+  amount: number; // 0 = `from`, 1 = `to`
+}
+
+interface ComparePanelProps {
+  slots: (EQSnapshot | null)[];
+  activeSlot: number;
+  morph: MorphSettings;
+  onSlotSwitch: (index: number) => void;
+  onSlotCopy: (from: number, to: number) => void;
+  onMorphChange: (morph: MorphSettings) => void;
+  onMorphEnd?: () => void; // The morph slider was released
+}
+
+const selectClass = 'bg-slate-900 text-gray-300 text-xs rounded border border-slate-600 focus:outline-none focus:border-blue-500 px-1';
+
+const ComparePanel: React.FC<ComparePanelProps> = ({
+  slots,
+  activeSlot,
+  morph,
+  onSlotSwitch,
+  onSlotCopy,
+  onMorphChange,
+  onMorphEnd,
+}) => {
+  const [chosenCopyTarget, setCopyTarget] = useState(activeSlot === 1 ? 0 : 1);
+  // A slot cannot be copied onto itself: after switching to the chosen target, the next slot stands in
+  const copyTarget = chosenCopyTarget === activeSlot ? (activeSlot + 1) % SLOT_NAMES.length : chosenCopyTarget;
+
+  return (
+    <div className="flex items-center space-x-4 bg-slate-900/80 backdrop-blur-sm px-3 py-1.5 rounded-full border border-slate-700/70 shadow-lg">
+      {/* Slots */}
+      <div className="flex items-center space-x-1">
+        {SLOT_NAMES.map((name, index) => (
+          <button
+            key={name}
+            onClick={() => onSlotSwitch(index)}
+            className={`w-6 h-6 rounded-full text-[11px] font-bold border transition-all ${
+              index === activeSlot
+                ? 'bg-blue-600 border-blue-400 text-white shadow-[0_0_10px_rgba(37,99,235,0.5)]'
+                : slots[index]
+                  ? 'bg-slate-800 border-slate-600 text-slate-300 hover:border-slate-400'
+                  : 'bg-transparent border-slate-700 border-dashed text-slate-600 hover:text-slate-400'
+            }`}
+            title={slots[index] || index === activeSlot ? `Slot ${name}` : `Slot ${name} (empty, starts as a copy of the current curve)`}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+
+      {/* Copy */}
+      <div className="flex items-center space-x-1 text-xs text-slate-400">
+        <button
+          onClick={() => onSlotCopy(activeSlot, copyTarget)}
+          className="px-2 py-0.5 rounded bg-slate-800 border border-slate-600 hover:border-slate-400 hover:text-white transition-colors"
+        >
+          Copy {SLOT_NAMES[activeSlot]} {'→'}
+        </button>
+        <select value={copyTarget} onChange={(e) => setCopyTarget(parseInt(e.target.value, 10))} className={selectClass}>
+          {SLOT_NAMES.map((name, index) => (
+            <option key={name} value={index} disabled={index === activeSlot}>{name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="h-4 w-px bg-slate-700"></div>
+
+      {/* Morph */}
+      <div className="flex items-center space-x-2 text-xs text-slate-400" title="Morph between two slots">
+        <span>Morph</span>
+        <select value={morph.from} onChange={(e) => onMorphChange({ ...morph, from: parseInt(e.target.value, 10) })} className={selectClass}>
+          {SLOT_NAMES.map((name, index) => <option key={name} value={index}>{name}</option>)}
+        </select>
+        <input
+          type="range" min="0" max="1" step="0.01"
+          value={morph.amount}
+          onChange={(e) => onMorphChange({ ...morph, amount: parseFloat(e.target.value) })}
+          onPointerUp={onMorphEnd}
+          onKeyUp={onMorphEnd}
+          className="w-24 h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer"
+        />
+        <select value={morph.to} onChange={(e) => onMorphChange({ ...morph, to: parseInt(e.target.value, 10) })} className={selectClass}>
+          {SLOT_NAMES.map((name, index) => <option key={name} value={index}>{name}</option>)}
+        </select>
+        <span className="font-mono w-8 text-right">{Math.round(morph.amount * 100)}%</span>
+      </div>
+    </div>
+  );
+};
+
+export default ComparePanel;
@@ -1,24 +1,40 @@
 
 import React from 'react';
-import { EQBand, BandType } from '../types';
+import { EQBand, BandType, DynamicMode } from '../types';
 import Slider from './Slider';
 import ToggleButton from './ToggleButton';
-import { MIN_FREQ, MAX_FREQ, MIN_GAIN, MAX_GAIN, MIN_Q, MAX_Q } from '../constants';
+import { MIN_FREQ, MAX_FREQ, MIN_GAIN, MAX_GAIN, MIN_Q, MAX_Q, CUT_SLOPES, DEFAULT_SLOPE, DEFAULT_CUT_Q, GAINLESS_BAND_TYPES, CUT_BAND_TYPES,
+  DEFAULT_DYNAMICS, THRESHOLD_RANGE, RATIO_RANGE, ATTACK_RANGE, RELEASE_RANGE, DYNAMIC_RANGE_MAX } from '../constants';
 
 interface EQBandControlProps {
   band: EQBand;
   onBandChange: (id: number, updatedBand: Partial<EQBand>) => void;
+  onBandChangeEnd?: () => void; // A slider was released
+  onBandRemove?: (id: number) => void;
 }
 
-const EQBandControl: React.FC<EQBandControlProps> = ({ band, onBandChange }) => {
+const EQBandControl: React.FC<EQBandControlProps> = ({ band, onBandChange, onBandChangeEnd, onBandRemove }) => {
   const handleSliderChange = (param: keyof EQBand, value: number) => {
     onBandChange(band.id, { [param]: value });
   };
 
   const handleTypeChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
-    onBandChange(band.id, { type: event.target.value as BandType });
+    const type = event.target.value as BandType;
+    // A peak's Q would make a cut ring badly, so cuts start out maximally flat
+    if (CUT_BAND_TYPES.includes(type) && !CUT_BAND_TYPES.includes(band.type)) {
+      onBandChange(band.id, { type, q: DEFAULT_CUT_Q, slope: band.slope ?? DEFAULT_SLOPE });
+    } else {
+      onBandChange(band.id, { type });
+    }
   };
 
+  const handleSlopeChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    onBandChange(band.id, { slope: parseInt(event.target.value, 10) });
+  };
+
+  const isCut = CUT_BAND_TYPES.includes(band.type);
+  const hasGain = !GAINLESS_BAND_TYPES.includes(band.type);
+
   const handleToggleChange = (enabled: boolean) => {
     onBandChange(band.id, { enabled });
   };
@@ -34,6 +50,15 @@ const EQBandControl: React.FC<EQBandControlProps> = ({ band, onBandChange }) =>
         <div className="flex items-center space-x-2">
            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: band.color }}></div>
            <span className="text-white font-bold text-lg">Band {band.id}</span>
+           {onBandRemove && (
+             <button
+               onClick={() => onBandRemove(band.id)}
+               className="text-slate-500 hover:text-red-400 transition-colors"
+               title="Delete Band (Del)"
+             >
+               <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"></path></svg>
+             </button>
+           )}
         </div>
         <div className="flex flex-col gap-2">
           
@@ -56,6 +81,18 @@ const EQBandControl: React.FC<EQBandControlProps> = ({ band, onBandChange }) =>
               >
                 S
               </button>
+              {/* Lock Button: the auto-fit leaves locked bands alone */}
+              <button
+                onClick={() => onBandChange(band.id, { locked: !band.locked })}
+                className={`w-6 h-6 rounded flex items-center justify-center border transition-all ${
+                    band.locked
+                    ? 'bg-slate-200 border-white text-slate-900'
+                    : 'bg-slate-700/50 border-slate-600 text-slate-400 hover:border-slate-400 hover:text-slate-200'
+                }`}
+                title={band.locked ? 'Unlock Band (auto-fit may change it)' : 'Lock Band (auto-fit keeps it)'}
+              >
+                <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"></path></svg>
+              </button>
           </div>
 
           {/* Dynamic Toggle */}
@@ -79,6 +116,20 @@ const EQBandControl: React.FC<EQBandControlProps> = ({ band, onBandChange }) =>
             <option key={type} value={type}>{type}</option>
           ))}
         </select>
+
+        {/* Slope - Only for Low-Cut / High-Cut */}
+        {isCut && (
+          <select
+            value={band.slope ?? DEFAULT_SLOPE}
+            onChange={handleSlopeChange}
+            className="bg-slate-900 text-gray-300 text-xs rounded border border-slate-600 focus:outline-none focus:border-blue-500 p-1 w-24"
+            title="Slope"
+          >
+            {CUT_SLOPES.map((slope) => (
+              <option key={slope} value={slope}>{slope} dB/oct</option>
+            ))}
+          </select>
+        )}
       </div>
 
       {/* Sliders */}
@@ -90,6 +141,7 @@ const EQBandControl: React.FC<EQBandControlProps> = ({ band, onBandChange }) =>
           step={1}
           value={band.frequency}
           onChange={(val) => handleSliderChange('frequency', val)}
+          onChangeEnd={onBandChangeEnd}
           valueSuffix="Hz"
           className={!band.enabled ? 'opacity-40 pointer-events-none grayscale' : ''}
         />
@@ -100,8 +152,9 @@ const EQBandControl: React.FC<EQBandControlProps> = ({ band, onBandChange }) =>
           step={0.1}
           value={band.gain}
           onChange={(val) => handleSliderChange('gain', val)}
+          onChangeEnd={onBandChangeEnd}
           valueSuffix="dB"
-          className={!band.enabled ? 'opacity-40 pointer-events-none grayscale' : ''}
+          className={!band.enabled || !hasGain ? 'opacity-40 pointer-events-none grayscale' : ''}
         />
         <Slider
           label="Q"
@@ -110,18 +163,73 @@ const EQBandControl: React.FC<EQBandControlProps> = ({ band, onBandChange }) =>
           step={0.01}
           value={band.q}
           onChange={(val) => handleSliderChange('q', val)}
+          onChangeEnd={onBandChangeEnd}
           className={!band.enabled ? 'opacity-40 pointer-events-none grayscale' : ''}
         />
-        {/* Dynamic Range Slider - Only visible if Dynamic is ON */}
+        {/* Dynamic Detector Controls - Only visible if Dynamic is ON */}
         {band.isDynamic && (
-           <div className="animate-fade-in pl-2 border-l border-slate-700">
+           <div className="animate-fade-in pl-6 border-l border-slate-700 flex space-x-6">
+             <div className="flex flex-col items-center gap-1">
+               <label className="text-xs text-gray-400 font-medium whitespace-nowrap">Mode</label>
+               <select
+                 value={band.dynamicMode ?? DEFAULT_DYNAMICS.dynamicMode}
+                 onChange={(e) => onBandChange(band.id, { dynamicMode: e.target.value as DynamicMode })}
+                 className="bg-slate-900 text-gray-300 text-xs rounded border border-slate-600 focus:outline-none focus:border-blue-500 p-1"
+                 title="Above: reduce when louder than threshold. Below: reduce when quieter."
+               >
+                 {Object.values(DynamicMode).map((mode) => (
+                   <option key={mode} value={mode}>{mode}</option>
+                 ))}
+               </select>
+             </div>
+             <Slider
+               label="Thresh"
+               min={THRESHOLD_RANGE.min}
+               max={THRESHOLD_RANGE.max}
+               step={0.5}
+               value={band.threshold ?? DEFAULT_DYNAMICS.threshold}
+               onChange={(val) => handleSliderChange('threshold', val)}
+               onChangeEnd={onBandChangeEnd}
+               valueSuffix="dB"
+             />
+             <Slider
+               label="Ratio"
+               min={RATIO_RANGE.min}
+               max={RATIO_RANGE.max}
+               step={0.1}
+               value={band.ratio ?? DEFAULT_DYNAMICS.ratio}
+               onChange={(val) => handleSliderChange('ratio', val)}
+               onChangeEnd={onBandChangeEnd}
+               valueSuffix=":1"
+             />
+             <Slider
+               label="Attack"
+               min={ATTACK_RANGE.min}
+               max={ATTACK_RANGE.max}
+               step={1}
+               value={band.attack ?? DEFAULT_DYNAMICS.attack}
+               onChange={(val) => handleSliderChange('attack', val)}
+               onChangeEnd={onBandChangeEnd}
+               valueSuffix="ms"
+             />
+             <Slider
+               label="Release"
+               min={RELEASE_RANGE.min}
+               max={RELEASE_RANGE.max}
+               step={1}
+               value={band.release ?? DEFAULT_DYNAMICS.release}
+               onChange={(val) => handleSliderChange('release', val)}
+               onChangeEnd={onBandChangeEnd}
+               valueSuffix="ms"
+             />
              <Slider
                label="Range"
                min={0}
-               max={12}
+               max={DYNAMIC_RANGE_MAX}
                step={0.5}
-               value={band.dynamicRange || 6}
+               value={band.dynamicRange ?? 6}
                onChange={(val) => handleSliderChange('dynamicRange', val)}
+               onChangeEnd={onBandChangeEnd}
                valueSuffix="dB"
              />
            </div>
@@ -1,31 +1,69 @@
 
 import React, { useRef, useEffect, useState } from 'react';
 import * as d3 from 'd3';
-import { FrequencyPoint, EQBand } from '../types';
-import { MIN_FREQ, MAX_FREQ, MIN_GAIN, MAX_GAIN, MIN_Q, MAX_Q } from '../constants';
+import { FrequencyPoint, EQBand, SpectrumLayer, SpectrumLayerVariant } from '../types';
+import { MIN_FREQ, MAX_FREQ, MIN_GAIN, MAX_GAIN, MIN_Q, MAX_Q, GAINLESS_BAND_TYPES, GRAPH_MARGIN, RIGHT_AXIS_WIDTH,
+  PHASE_COLOR, GROUP_DELAY_COLOR, GROUP_DELAY_DISPLAY_MAX } from '../constants';
+
+// Cuts, notches and band-passes have no gain: their handle sits on the 0 dB line
+const handleGain = (band: EQBand): number => GAINLESS_BAND_TYPES.includes(band.type) ? 0 : band.gain;
+
+// How each kind of analyzer trace is stroked; 'area' layers also get the gradient fill
+const LAYER_STYLES: Record<SpectrumLayerVariant, { width: number; dash: string | null; opacity: number }> = {
+  area: { width: 1, dash: null, opacity: 0.5 },
+  line: { width: 1, dash: null, opacity: 0.8 },
+  peak: { width: 1, dash: '2 2', opacity: 0.6 },
+  reference: { width: 1.5, dash: '6 3', opacity: 0.9 },
+  residual: { width: 1, dash: '1 2', opacity: 0.9 },
+};
+
+// A phase or group delay trace with its own right-hand axis
+interface ResponseTrace {
+  key: string;
+  scale: d3.ScaleLinear<number, number>;
+  ticks: number[];
+  format: (value: number) => string;
+  color: string;
+  points: { frequency: number; value: number | null }[]; // null breaks the line
+}
 
 interface FrequencyResponseGraphProps {
   data: FrequencyPoint[];
-  spectrumData?: FrequencyPoint[];
+  spectrumLayers?: SpectrumLayer[]; // Drawn back to front
+  spectrumOffset?: number; // dB added to the spectra's dBFS levels; labels the right-hand dBFS scale
+  overlayLayers?: SpectrumLayer[];  // Drawn on the gain axis itself, without the dBFS offset
+  transparent?: boolean;   // Let a view underneath (the spectrogram) show through the plot
+  showPhase?: boolean;      // Phase (deg) of `data`, on its own right-hand axis
+  showGroupDelay?: boolean; // Group delay (ms) of `data`, likewise
+  margin?: typeof GRAPH_MARGIN; // Must leave RIGHT_AXIS_WIDTH on the right for each of the above
   bands: EQBand[];
   selectedBandId: number | null;
   onBandChange: (id: number, updatedBand: Partial<EQBand>) => void;
+  onBandChangeEnd?: () => void; // End of a drag, or of wheel edits when the pointer leaves the handle
   onBandSelect: (id: number) => void;
   onBandHover?: (id: number | null) => void;
+  onBandAdd?: (frequency: number, gain: number) => void;
 }
 
 const FrequencyResponseGraph: React.FC<FrequencyResponseGraphProps> = ({
   data,
-  spectrumData,
+  spectrumLayers = [],
+  spectrumOffset = 0,
+  overlayLayers = [],
+  transparent = false,
+  showPhase = false,
+  showGroupDelay = false,
+  margin = GRAPH_MARGIN,
   bands,
   selectedBandId,
   onBandChange,
+  onBandChangeEnd,
   onBandSelect,
   onBandHover,
+  onBandAdd,
 }) => {
   const svgRef = useRef<SVGSVGElement | null>(null);
   const [dimensions, setDimensions] = useState({ width: 800, height: 400 });
-  const margin = { top: 20, right: 20, bottom: 30, left: 40 };
 
   useEffect(() => {
     const handleResize = () => {
@@ -41,6 +79,10 @@ const FrequencyResponseGraph: React.FC<FrequencyResponseGraphProps> = ({
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
+  const visibleLayers = spectrumLayers.filter(layer => layer.points.length > 0);
+  const visibleOverlays = overlayLayers.filter(layer => layer.points.length > 0);
+  const legendLayers = [...visibleLayers, ...visibleOverlays];
+
   useEffect(() => {
     if (!data.length || !svgRef.current) return;
 
@@ -143,48 +185,58 @@ const FrequencyResponseGraph: React.FC<FrequencyResponseGraphProps> = ({
       .text(d => d >= 1000 ? `${d/1000}k` : d);
     xLabels.exit().remove();
 
+    // Calibrated analyzer scale (dBFS) along the right edge, only while a spectrum is drawn
+    const dbfsLabels = g.selectAll<SVGTextElement, number>('.dbfs-label')
+      .data(visibleLayers.length > 0 ? gainTicks : [], d => d);
+    dbfsLabels.enter().append('text').attr('class', 'dbfs-label')
+      .attr('fill', '#6b7280')
+      .attr('font-size', '9px')
+      .attr('text-anchor', 'end')
+      .attr('dy', '-3px')
+      .merge(dbfsLabels)
+      .attr('x', width - 3)
+      .attr('y', d => yScale(d))
+      .text(d => `${d - spectrumOffset}`);
+    dbfsLabels.exit().remove();
+
     // --- SPECTRUM ANALYZER ---
-    // Render spectrum behind the EQ curve
-    if (spectrumData && spectrumData.length > 0) {
-      // Area (Fill)
-      const spectrumArea = d3.area<FrequencyPoint>()
-        .x(d => xScale(d.frequency))
-        .y0(height) // Bottom of graph
-        .y1(d => yScale(d.gain))
-        .curve(d3.curveBasis); // Smooth the random noise slightly
-
-      let specPath = g.select<SVGPathElement>('.spectrum-path');
-      if (specPath.empty()) {
-        specPath = g.append('path').attr('class', 'spectrum-path');
-      }
-      specPath
-        .datum(spectrumData)
-        .attr('d', spectrumArea)
-        .attr('fill', 'url(#spectrum-gradient)')
-        .attr('opacity', 0.8);
-
-      // Line (Stroke)
-      const spectrumLine = d3.line<FrequencyPoint>()
-        .x(d => xScale(d.frequency))
-        .y(d => yScale(d.gain))
-        .curve(d3.curveBasis);
-
-      let specLinePath = g.select<SVGPathElement>('.spectrum-line');
-      if (specLinePath.empty()) {
-        specLinePath = g.append('path').attr('class', 'spectrum-line');
-      }
-      specLinePath
-        .datum(spectrumData)
-        .attr('d', spectrumLine)
-        .attr('fill', 'none')
-        .attr('stroke', '#9ca3af') // gray-400
-        .attr('stroke-width', 1)
-        .attr('opacity', 0.5);
-
-    } else {
-        g.select('.spectrum-path').remove();
-        g.select('.spectrum-line').remove();
-    }
+    // Layers render behind the EQ curve, in the order given
+    const spectrumArea = d3.area<FrequencyPoint>()
+      .x(d => xScale(d.frequency))
+      .y0(height) // Bottom of graph
+      .y1(d => yScale(Math.max(MIN_GAIN, d.gain)))
+      .curve(d3.curveBasis);
+
+    const spectrumLine = d3.line<FrequencyPoint>()
+      .x(d => xScale(d.frequency))
+      .y(d => yScale(Math.max(MIN_GAIN, d.gain)))
+      .curve(d3.curveBasis);
+
+    const drawLayers = (groupClass: string, layerData: SpectrumLayer[]) => {
+      let group = g.select<SVGGElement>(`g.${groupClass}`);
+      if (group.empty()) group = g.append('g').attr('class', groupClass);
+
+      const layers = group.selectAll<SVGGElement, SpectrumLayer>('g.spectrum-layer')
+        .data(layerData, d => d.id);
+      const layersEnter = layers.enter().append('g').attr('class', 'spectrum-layer');
+      layersEnter.append('path').attr('class', 'spectrum-path').attr('fill', 'url(#spectrum-gradient)').attr('opacity', 0.8);
+      layersEnter.append('path').attr('class', 'spectrum-line').attr('fill', 'none');
+      const layersMerge = layersEnter.merge(layers).order();
+
+      layersMerge.select<SVGPathElement>('.spectrum-path')
+        .attr('d', d => (d.variant === 'area' ? spectrumArea(d.points) : null));
+      layersMerge.select<SVGPathElement>('.spectrum-line')
+        .attr('d', d => spectrumLine(d.points))
+        .attr('stroke', d => d.color)
+        .attr('stroke-width', d => LAYER_STYLES[d.variant].width)
+        .attr('stroke-dasharray', d => LAYER_STYLES[d.variant].dash)
+        .attr('opacity', d => LAYER_STYLES[d.variant].opacity);
+      layers.exit().remove();
+    };
+
+    drawLayers('spectrum-layers', visibleLayers);
+    // Curves in EQ dB (e.g. a match target) sit above the spectra, below the EQ curve
+    drawLayers('overlay-layers', visibleOverlays);
 
     // --- EQ CURVE ---
     const line = d3.line<FrequencyPoint>()
@@ -198,6 +250,84 @@ const FrequencyResponseGraph: React.FC<FrequencyResponseGraphProps> = ({
       .y1(d => yScale(d.gain))
       .curve(d3.curveBasis);
 
+    // --- PHASE / GROUP DELAY ---
+    // Drawn under the EQ curve, each with an axis in the right margin
+    const traces: ResponseTrace[] = [];
+    if (showPhase) {
+      const points: ResponseTrace['points'] = [];
+      data.forEach((d, i) => {
+        // Break the line where the phase wraps instead of drawing a vertical jump
+        if (i > 0 && Math.abs((d.phase ?? 0) - (data[i - 1].phase ?? 0)) > 180) points.push({ frequency: d.frequency, value: null });
+        points.push({ frequency: d.frequency, value: d.phase ?? 0 });
+      });
+      traces.push({
+        key: 'phase',
+        scale: d3.scaleLinear().domain([-180, 180]).range([height, 0]),
+        ticks: [-180, -90, 0, 90, 180],
+        format: value => `${value}°`,
+        color: PHASE_COLOR,
+        points,
+      });
+    }
+    if (showGroupDelay) {
+      const clampDelay = (value: number) => Math.max(-GROUP_DELAY_DISPLAY_MAX, Math.min(GROUP_DELAY_DISPLAY_MAX, value));
+      const delays = data.map(d => clampDelay(d.groupDelay ?? 0));
+      const scale = d3.scaleLinear()
+        .domain([Math.min(0, d3.min(delays) ?? 0), Math.max(1, d3.max(delays) ?? 0)])
+        .nice()
+        .range([height, 0]);
+      traces.push({
+        key: 'group-delay',
+        scale,
+        ticks: scale.ticks(5),
+        format: value => `${value} ms`,
+        color: GROUP_DELAY_COLOR,
+        points: data.map((d, i) => ({ frequency: d.frequency, value: delays[i] })),
+      });
+    }
+
+    let traceGroup = g.select<SVGGElement>('g.response-traces');
+    if (traceGroup.empty()) traceGroup = g.append('g').attr('class', 'response-traces').attr('pointer-events', 'none');
+
+    const tracePaths = traceGroup.selectAll<SVGPathElement, ResponseTrace>('path.response-trace')
+      .data(traces, d => d.key);
+    tracePaths.enter().append('path').attr('class', 'response-trace')
+      .attr('fill', 'none')
+      .attr('stroke-width', 1.5)
+      .attr('opacity', 0.8)
+      .merge(tracePaths)
+      .attr('stroke', d => d.color)
+      .attr('d', d => d3.line<ResponseTrace['points'][number]>()
+        .defined(p => p.value !== null)
+        .x(p => xScale(p.frequency))
+        .y(p => d.scale(p.value ?? 0))(d.points));
+    tracePaths.exit().remove();
+
+    const axes = g.selectAll<SVGGElement, ResponseTrace>('g.right-axis')
+      .data(traces, d => d.key);
+    const axesEnter = axes.enter().append('g').attr('class', 'right-axis');
+    axesEnter.append('line').attr('class', 'axis-line').attr('y1', 0);
+    const axesMerge = axesEnter.merge(axes)
+      .attr('transform', (d, i) => `translate(${width + i * RIGHT_AXIS_WIDTH},0)`);
+    axesMerge.select('.axis-line')
+      .attr('y2', height)
+      .attr('stroke', d => d.color)
+      .attr('opacity', 0.4);
+    axesMerge.each(function(trace) {
+      const labels = d3.select(this).selectAll<SVGTextElement, number>('text.axis-label')
+        .data(trace.ticks, d => d);
+      labels.enter().append('text').attr('class', 'axis-label')
+        .attr('font-size', '9px')
+        .attr('x', 4)
+        .attr('dy', '3px')
+        .merge(labels)
+        .attr('fill', trace.color)
+        .attr('y', d => trace.scale(d))
+        .text(d => trace.format(d));
+      labels.exit().remove();
+    });
+    axes.exit().remove();
+
     // Fill under curve
     let curveAreaPath = g.select<SVGPathElement>('.curve-area');
     if (curveAreaPath.empty()) curveAreaPath = g.append('path').attr('class', 'curve-area');
@@ -218,10 +348,18 @@ const FrequencyResponseGraph: React.FC<FrequencyResponseGraphProps> = ({
       .attr('stroke-width', 2.5)
       .style('filter', 'drop-shadow(0 0 4px rgba(96, 165, 250, 0.5))'); // Glow effect
 
+    // Double-click on an empty spot creates a band there
+    svg.on('dblclick', (event) => {
+      if (!onBandAdd) return;
+      const [x, y] = d3.pointer(event, g.node());
+      if (x < 0 || x > width || y < 0 || y > height) return;
+      onBandAdd(xScale.invert(x), yScale.invert(y));
+    });
+
     // --- INTERACTIVE HANDLES ---
     // We use the same Drag logic, updated for the new styling
     const drag = d3.drag<SVGGElement, EQBand>()
-      .subject(function(event, d) { return { x: xScale(d.frequency), y: yScale(d.gain) }; })
+      .subject(function(event, d) { return { x: xScale(d.frequency), y: yScale(handleGain(d)) }; })
       .on('start', function(event, d) {
         onBandSelect(d.id);
         d3.select(this).raise(); // Bring to front
@@ -238,8 +376,13 @@ const FrequencyResponseGraph: React.FC<FrequencyResponseGraphProps> = ({
         newFreq = Math.max(MIN_FREQ, Math.min(MAX_FREQ, newFreq));
         newGain = Math.max(MIN_GAIN, Math.min(MAX_GAIN, newGain));
 
-        onBandChange(d.id, { frequency: newFreq, gain: newGain });
-      });
+        if (GAINLESS_BAND_TYPES.includes(d.type)) {
+          onBandChange(d.id, { frequency: newFreq }); // Horizontal drag only
+        } else {
+          onBandChange(d.id, { frequency: newFreq, gain: newGain });
+        }
+      })
+      .on('end', () => onBandChangeEnd?.());
 
     // We use groups 'g' for handles to potentially add text or outer rings
     const handles = g.selectAll<SVGGElement, EQBand>('.band-handle')
@@ -254,7 +397,10 @@ const FrequencyResponseGraph: React.FC<FrequencyResponseGraphProps> = ({
       })
       .on('mouseleave', (event, d) => {
         if (onBandHover) onBandHover(null);
+        onBandChangeEnd?.(); // Wheel turns over a handle count as one gesture
       })
+      // Keep double-clicks on a handle from creating a band underneath it
+      .on('dblclick', (event) => event.stopPropagation())
       // Mouse Wheel to adjust Q
       .on('wheel', function(event, d) {
         event.preventDefault();
@@ -320,7 +466,7 @@ const FrequencyResponseGraph: React.FC<FrequencyResponseGraphProps> = ({
     
     handlesMerge
       .attr('transform', d => {
-        return `translate(${xScale(d.frequency)}, ${yScale(d.gain)})`;
+        return `translate(${xScale(d.frequency)}, ${yScale(handleGain(d))})`;
       });
 
     // Update Q Indicator
@@ -359,11 +505,24 @@ const FrequencyResponseGraph: React.FC<FrequencyResponseGraphProps> = ({
 
     handles.exit().remove();
 
-  }, [data, spectrumData, bands, selectedBandId, dimensions, margin.left, margin.top, onBandChange, onBandSelect, onBandHover]);
+  }, [data, visibleLayers, visibleOverlays, spectrumOffset, bands, selectedBandId, dimensions, margin, showPhase, showGroupDelay, onBandChange, onBandChangeEnd, onBandSelect, onBandHover, onBandAdd]);
 
   return (
     <div className="w-full h-full relative select-none">
-      <svg ref={svgRef} className="w-full h-full bg-slate-900 rounded-lg shadow-2xl overflow-hidden"></svg>
+      <svg ref={svgRef} className={`w-full h-full rounded-lg shadow-2xl overflow-hidden ${transparent ? '' : 'bg-slate-900'}`}></svg>
+      {legendLayers.length > 1 && (
+        <div className="absolute top-2 flex gap-3 text-[10px] text-slate-400 pointer-events-none" style={{ left: margin.left + 8 }}>
+          {legendLayers.map(layer => (
+            <span key={layer.id} className="flex items-center gap-1">
+              <span
+                className={`w-3 border-t ${LAYER_STYLES[layer.variant].dash ? 'border-dashed' : ''}`}
+                style={{ borderColor: layer.color }}
+              />
+              {layer.label}
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,42 @@
+import React from 'react';
+import { HistoryState, getHistoryEntries } from '../utils/history';
+
+interface HistoryPanelProps {
+  history: HistoryState;
+  onJump: (index: number) => void;
+  onClose: () => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump, onClose }) => {
+  const entries = getHistoryEntries(history);
+  const presentIndex = history.past.length;
+
+  return (
+    <div className="w-56 bg-slate-900/95 backdrop-blur-md border border-slate-700 rounded-xl shadow-2xl p-3 animate-fade-in-up">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-xs font-bold uppercase tracking-widest text-slate-400">History</h3>
+        <button onClick={onClose} className="text-slate-500 hover:text-white text-xs">Close</button>
+      </div>
+      <div className="max-h-72 overflow-y-auto space-y-0.5">
+        {/* Newest first */}
+        {entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+          <button
+            key={`${index}-${entry.timestamp}`}
+            onClick={() => onJump(index)}
+            className={`w-full text-left px-2 py-1 rounded text-xs transition-colors ${
+              index === presentIndex
+                ? 'bg-blue-600/30 text-blue-100'
+                : index > presentIndex
+                  ? 'text-slate-600 hover:bg-slate-800 italic'
+                  : 'text-slate-300 hover:bg-slate-800'
+            }`}
+          >
+            {entry.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { InputDevice, LiveInput, listInputDevices } from '../utils/liveInput';
+
+interface LiveInputPanelProps {
+  liveInput: LiveInput;
+  monitor: boolean; // false = analyse only, the input never reaches the speakers
+  suspended: boolean; // Analyse only while a file plays: the input is out of the chain
+  onMonitorChange: (monitor: boolean) => void;
+  onClose: () => void;
+}
+
+const TRIM_RANGE = { min: -24, max: 24 }; // dB
+
+const LiveInputPanel: React.FC<LiveInputPanelProps> = ({ liveInput, monitor, suspended, onMonitorChange, onClose }) => {
+  const [devices, setDevices] = useState<InputDevice[]>([]);
+  const [deviceId, setDeviceId] = useState<string>('');
+  const [trim, setTrim] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const openDevice = async (id?: string) => {
+    setError(null);
+    try {
+      await liveInput.start(id);
+      setDeviceId(liveInput.deviceId ?? id ?? '');
+      // Device names only become visible once access has been granted
+      setDevices(await listInputDevices());
+    } catch (err) {
+      console.error('Failed to open audio input', err);
+      setError(err instanceof DOMException && err.name === 'NotAllowedError'
+        ? 'Microphone access was denied. Allow it in the browser to use a live input.'
+        : 'Could not open the audio input.');
+    }
+  };
+
+  // Open the default input when the panel appears, close it when the panel goes away
+  useEffect(() => {
+    openDevice();
+    return () => liveInput.stop();
+  }, [liveInput]);
+
+  const handleTrimChange = (value: number) => {
+    setTrim(value);
+    liveInput.setTrim(value);
+  };
+
+  return (
+    <div className="bg-slate-900/90 backdrop-blur-md border border-slate-700 rounded-xl shadow-2xl p-3 w-80 text-slate-200">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-bold flex items-center gap-1.5">
+          <span className={`w-2 h-2 rounded-full ${error ? 'bg-slate-600' : 'bg-red-500 animate-pulse'}`} />
+          Live Input
+        </span>
+        <button onClick={onClose} className="text-slate-500 hover:text-white" title="Close input">
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+        </button>
+      </div>
+
+      <select
+        value={deviceId}
+        onChange={e => openDevice(e.target.value)}
+        className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs focus:outline-none focus:border-blue-500"
+      >
+        {devices.length === 0 && <option value="">Default input</option>}
+        {devices.map(device => <option key={device.deviceId} value={device.deviceId}>{device.label}</option>)}
+      </select>
+
+      <div className="flex items-center space-x-2 mt-2">
+        <span className="text-[10px] text-slate-400 w-8">Trim</span>
+        <input
+          type="range" min={TRIM_RANGE.min} max={TRIM_RANGE.max} step="0.5"
+          value={trim} onChange={e => handleTrimChange(parseFloat(e.target.value))}
+          onDoubleClick={() => handleTrimChange(0)}
+          className="flex-1 h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer"
+        />
+        <span className="text-[10px] font-mono w-12 text-right">{trim > 0 ? '+' : ''}{trim.toFixed(1)} dB</span>
+      </div>
+
+      <div className="flex mt-2 bg-slate-800 rounded p-0.5 text-[10px] font-bold">
+        <button
+          onClick={() => onMonitorChange(false)}
+          className={`flex-1 py-1 rounded ${!monitor ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-white'}`}
+        >
+          Analyse Only
+        </button>
+        <button
+          onClick={() => onMonitorChange(true)}
+          className={`flex-1 py-1 rounded ${monitor ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+          title="Hear the processed input. Use headphones to avoid feedback."
+        >
+          Monitor
+        </button>
+      </div>
+
+      {suspended && (
+        <p className="mt-2 text-[10px] text-slate-400">Paused while the file plays.</p>
+      )}
+      {error && <p className="mt-2 text-[10px] text-red-300">{error}</p>}
+    </div>
+  );
+};
+
+export default LiveInputPanel;
@@ -0,0 +1,183 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { EQBand, FrequencyPoint } from '../types';
+import { MIN_FREQ, MAX_FREQ, NUM_MATCH_POINTS, OCTAVE_SMOOTHING_OPTIONS } from '../constants';
+import { LongTermSpectrum, computeLongTermSpectrum, computeMatchCurve } from '../utils/eqMatch';
+import { calculateRmsError, fitBandsToTarget, getFitResidual, isFittable } from '../utils/curveFit';
+import { decodeAudioFile } from '../utils/offlineRender';
+
+interface MatchEQPanelProps {
+  sourceBuffer: AudioBuffer | null; // The file loaded in the player, if any
+  sourceName?: string;
+  bands: EQBand[];
+  sampleRate: number;
+  onTargetChange: (target: FrequencyPoint[] | null) => void;
+  onApplyFit: (bands: EQBand[]) => void;
+  onClose: () => void;
+}
+
+interface AnalysedTrack {
+  name: string;
+  spectrum: LongTermSpectrum;
+}
+
+const labelClass = 'block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1';
+
+const analyseBuffer = (buffer: AudioBuffer): LongTermSpectrum =>
+  computeLongTermSpectrum(
+    Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel)),
+    buffer.sampleRate
+  );
+
+const MatchEQPanel: React.FC<MatchEQPanelProps> = ({
+  sourceBuffer,
+  sourceName,
+  bands,
+  sampleRate,
+  onTargetChange,
+  onApplyFit,
+  onClose,
+}) => {
+  const [reference, setReference] = useState<AnalysedTrack | null>(null);
+  const [chosenSource, setChosenSource] = useState<AnalysedTrack | null>(null); // Picked here when no file is playing
+  const [smoothing, setSmoothing] = useState(6);
+  const [amount, setAmount] = useState(100); // %
+  const [isAnalysing, setIsAnalysing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const referenceInputRef = useRef<HTMLInputElement>(null);
+  const sourceInputRef = useRef<HTMLInputElement>(null);
+
+  const playerSource = useMemo(
+    () => (sourceBuffer ? { name: sourceName ?? 'Loaded file', spectrum: analyseBuffer(sourceBuffer) } : null),
+    [sourceBuffer, sourceName]
+  );
+  const source = playerSource ?? chosenSource;
+
+  const target = useMemo(() => {
+    if (!reference || !source) return null;
+    return computeMatchCurve(reference.spectrum, source.spectrum, smoothing, amount / 100, MIN_FREQ, MAX_FREQ, NUM_MATCH_POINTS);
+  }, [reference, source, smoothing, amount]);
+
+  // The graph shows the target while the panel is open
+  useEffect(() => {
+    onTargetChange(target);
+  }, [target, onTargetChange]);
+  useEffect(() => () => onTargetChange(null), [onTargetChange]);
+
+  const rmsError = useMemo(
+    () => (target ? calculateRmsError(getFitResidual(bands, target, sampleRate)) : null),
+    [bands, target, sampleRate]
+  );
+
+  const analyseFile = async (file: File, onDone: (track: AnalysedTrack) => void) => {
+    setError(null);
+    setIsAnalysing(true);
+    try {
+      const buffer = await decodeAudioFile(await file.arrayBuffer(), sampleRate);
+      onDone({ name: file.name, spectrum: analyseBuffer(buffer) });
+    } catch (err) {
+      console.error('Failed to analyse audio file', err);
+      setError(`Could not read "${file.name}".`);
+    } finally {
+      setIsAnalysing(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>, onDone: (track: AnalysedTrack) => void) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (file) analyseFile(file, onDone);
+  };
+
+  const handleFit = () => {
+    if (!target) return;
+    onApplyFit(fitBandsToTarget(bands, target, sampleRate).bands);
+  };
+
+  const canFit = !!target && bands.some(isFittable);
+
+  return (
+    <div className="bg-slate-900/90 backdrop-blur-md border border-slate-700 rounded-xl shadow-2xl p-3 w-80 text-slate-200">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-bold">Match EQ</span>
+        <button onClick={onClose} className="text-slate-500 hover:text-white" title="Close">
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <div>
+          <label className={labelClass}>Reference</label>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => referenceInputRef.current?.click()}
+              disabled={isAnalysing}
+              className="px-2 py-1 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded text-xs disabled:opacity-40"
+            >
+              Choose...
+            </button>
+            <span className="text-xs text-slate-400 truncate">{reference ? reference.name : 'The sound to match'}</span>
+            <input ref={referenceInputRef} type="file" accept="audio/*" onChange={e => handleFileChange(e, setReference)} className="hidden" />
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Source</label>
+          {playerSource ? (
+            <span className="text-xs text-slate-400 truncate block">{playerSource.name}</span>
+          ) : (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => sourceInputRef.current?.click()}
+                disabled={isAnalysing}
+                className="px-2 py-1 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded text-xs disabled:opacity-40"
+              >
+                Choose...
+              </button>
+              <span className="text-xs text-slate-400 truncate">{chosenSource ? chosenSource.name : 'Or drop a file on the graph'}</span>
+              <input ref={sourceInputRef} type="file" accept="audio/*" onChange={e => handleFileChange(e, setChosenSource)} className="hidden" />
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className={labelClass}>Smoothing</label>
+            <select
+              value={smoothing} onChange={e => setSmoothing(parseInt(e.target.value, 10))}
+              className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs focus:outline-none focus:border-blue-500"
+            >
+              {OCTAVE_SMOOTHING_OPTIONS.filter(n => n > 0).map(n => <option key={n} value={n}>1/{n} oct</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Amount {amount}%</label>
+            <input
+              type="range" min="0" max="100" step="5"
+              value={amount} onChange={e => setAmount(parseInt(e.target.value, 10))}
+              className="w-full h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
+        </div>
+
+        {isAnalysing && <p className="text-[10px] text-slate-500">Analysing...</p>}
+        {error && <p className="text-[10px] text-red-300">{error}</p>}
+
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] text-slate-400" title="RMS difference between the current bands and the target">
+            {rmsError !== null ? `Residual ${rmsError.toFixed(2)} dB RMS` : 'Choose a reference and a source'}
+          </span>
+          <button
+            onClick={handleFit}
+            disabled={!canFit}
+            className="px-3 py-1 bg-blue-600 hover:bg-blue-500 rounded text-xs font-bold disabled:opacity-40"
+            title="Set frequency, gain and Q of the enabled bands to follow the target"
+          >
+            Fit Bands
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MatchEQPanel;
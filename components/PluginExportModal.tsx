@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { ProcessingSettings } from '../types';
+import { PluginProgram, fitPluginPrograms } from '../utils/vstTemplates';
+import {
+  PluginFormat, PluginProjectSettings, PLUGIN_FORMATS, DEFAULT_PROJECT_SETTINGS,
+  createProjectFiles, toTargetName, validateProjectSettings,
+} from '../utils/juceProject';
+import { createZip } from '../utils/zip';
+import { downloadFile } from '../utils/fileUtils';
+
+interface PluginExportModalProps {
+  programs: PluginProgram[];
+  processing: ProcessingSettings; // Mode the plugin starts in
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded px-3 py-1.5 text-sm focus:outline-none focus:border-blue-500';
+const labelClass = 'block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1';
+
+const PluginExportModal: React.FC<PluginExportModalProps> = ({ programs, processing, onClose }) => {
+  const [settings, setSettings] = useState<PluginProjectSettings>(DEFAULT_PROJECT_SETTINGS);
+  const errors = validateProjectSettings(settings);
+  const numPrograms = fitPluginPrograms(programs).length;
+
+  const update = (changes: Partial<PluginProjectSettings>) => setSettings({ ...settings, ...changes });
+
+  const toggleFormat = (format: PluginFormat) => {
+    const formats = settings.formats.includes(format)
+      ? settings.formats.filter(f => f !== format)
+      : PLUGIN_FORMATS.filter(f => f === format || settings.formats.includes(f));
+    update({ formats });
+  };
+
+  const handleDownload = () => {
+    if (errors.length) return;
+    const zip = createZip(createProjectFiles(settings, programs, processing));
+    downloadFile(`${toTargetName(settings.name)}.zip`, zip, 'application/zip');
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-600 rounded-xl shadow-2xl max-w-lg w-full p-6 relative animate-fade-in-up">
+        <div className="flex items-start justify-between mb-4">
+           <div className="flex items-center gap-2">
+             <div className="bg-blue-600 p-2 rounded-lg">
+               <svg className="w-6 h-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19.428 15.428a2 2 0 00-1.022-.547l-2.384-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z"></path></svg>
+             </div>
+             <div>
+               <h2 className="text-xl font-bold text-white">Export Plugin</h2>
+               <p className="text-xs text-slate-400">JUCE project: CMake + Projucer</p>
+             </div>
+           </div>
+           <button onClick={onClose} className="text-slate-500 hover:text-white">
+             <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+           </button>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <label className={labelClass}>Plugin Name</label>
+            <input value={settings.name} onChange={e => update({ name: e.target.value })} className={inputClass} />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className={labelClass}>Manufacturer</label>
+              <input value={settings.manufacturer} onChange={e => update({ manufacturer: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Mfr. Code</label>
+              <input
+                value={settings.manufacturerCode} maxLength={4}
+                onChange={e => update({ manufacturerCode: e.target.value })}
+                className={`${inputClass} font-mono`} title="4 characters, at least one upper-case letter"
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Plugin Code</label>
+              <input
+                value={settings.pluginCode} maxLength={4}
+                onChange={e => update({ pluginCode: e.target.value })}
+                className={`${inputClass} font-mono`} title="4 characters, unique among your plugins"
+              />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Formats</label>
+            <div className="flex space-x-4 text-sm">
+              {PLUGIN_FORMATS.map(format => (
+                <label key={format} className="flex items-center space-x-1.5 cursor-pointer">
+                  <input type="checkbox" checked={settings.formats.includes(format)} onChange={() => toggleFormat(format)} className="accent-blue-500" />
+                  <span>{format}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-xs text-slate-400">
+            The zip contains <strong>CMakeLists.txt</strong> (juce_add_plugin), a <strong>.jucer</strong> project, the <strong>Source/</strong> folder and a README with build steps.
+            The plugin opens with the curve on screen and includes {numPrograms} program{numPrograms === 1 ? '' : 's'} from your presets.
+          </p>
+
+          {errors.length > 0 && (
+            <ul className="p-2 bg-red-900/30 border border-red-700/50 rounded text-xs text-red-200 list-disc list-inside">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <div className="pt-1">
+            <a
+              href="https://github.com/vevikils/VeviMaster-IA"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 text-xs text-blue-400 hover:text-blue-300 underline"
+            >
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path fillRule="evenodd" d="M12 2C6.477 2 2 6.484 2 12.017c0 4.425 2.865 8.18 6.839 9.504.5.092.682-.217.682-.483 0-.237-.008-.868-.013-1.703-2.782.605-3.369-1.343-3.369-1.343-.454-1.158-1.11-1.466-1.11-1.466-.908-.62.069-.608.069-.608 1.003.07 1.531 1.032 1.531 1.032.892 1.53 2.341 1.088 2.91.832.092-.647.35-1.088.636-1.338-2.22-.253-4.555-1.113-4.555-4.951 0-1.093.39-1.988 1.029-2.688-.103-.253-.446-1.272.098-2.65 0 0 .84-.27 2.75 1.026A9.564 9.564 0 0112 6.844c.85.004 1.705.115 2.504.337 1.909-1.296 2.747-1.027 2.747-1.027.546 1.379.202 2.398.1 2.651.64.7 1.028 1.595 1.028 2.688 0 3.848-2.339 4.695-4.566 4.943.359.309.678.92.678 1.855 0 1.338-.012 2.419-.012 2.747 0 .268.18.58.688.482A10.019 10.019 0 0022 12.017C22 6.484 17.522 2 12 2z" clipRule="evenodd"/></svg>
+              Visit Official Repository on GitHub
+            </a>
+          </div>
+        </div>
+
+        <div className="mt-6 flex flex-col gap-2">
+           <button
+             onClick={handleDownload}
+             disabled={errors.length > 0}
+             className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 text-white py-3 rounded-lg font-bold shadow-lg transition-all text-sm flex items-center justify-center gap-2 disabled:opacity-40"
+           >
+             <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"></path></svg>
+             Download Project (.zip)
+           </button>
+           <button onClick={onClose} className="text-slate-500 hover:text-white py-2 text-xs">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PluginExportModal;
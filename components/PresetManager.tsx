@@ -0,0 +1,408 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { EQPreset } from '../types';
+import { EQSnapshot } from '../utils/history';
+import { createPresetId } from '../utils/presetSchema';
+import { parsePresetFile, serializePresets } from '../utils/presetFiles';
+import { formatApoText, parseApoText } from '../utils/apoFormat';
+import { downloadFile, toFileName } from '../utils/fileUtils';
+import { FACTORY_CATEGORIES, FACTORY_PRESETS } from '../factoryPresets';
+import {
+  PresetSortOrder, PRESET_SORT_LABELS, duplicatePreset, getUniquePresetName, matchesPresetSearch, parseTags, sortPresets,
+} from '../utils/presetUtils';
+
+interface PresetManagerProps {
+  presets: EQPreset[];
+  current: EQSnapshot;
+  loadedPresetId: string | null;
+  isModified: boolean;
+  onPresetsChange: React.Dispatch<React.SetStateAction<EQPreset[]>>;
+  onLoad: (preset: EQPreset) => void;
+  onLoadedPresetChange: (id: string | null) => void;
+  onClose: () => void;
+}
+
+type PresetView = 'user' | 'factory';
+
+interface PresetDraft {
+  name: string;
+  category: string;
+  tags: string;
+}
+
+const inputClass = 'bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-500';
+const smallInputClass = 'bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs focus:outline-none focus:border-blue-500';
+const footerButtonClass = 'flex-1 bg-slate-800 hover:bg-slate-700 border border-slate-700 px-3 py-1.5 rounded text-xs font-bold disabled:opacity-40';
+const rowActionClass = 'text-xs text-slate-400 opacity-0 group-hover:opacity-100 hover:text-white';
+
+const PresetManager: React.FC<PresetManagerProps> = ({
+  presets,
+  current,
+  loadedPresetId,
+  isModified,
+  onPresetsChange,
+  onLoad,
+  onLoadedPresetChange,
+  onClose,
+}) => {
+  const [newName, setNewName] = useState('');
+  const [view, setView] = useState<PresetView>(() =>
+    FACTORY_PRESETS.some(p => p.id === loadedPresetId) || presets.length === 0 ? 'factory' : 'user');
+  const [search, setSearch] = useState('');
+  const [sortOrder, setSortOrder] = useState<PresetSortOrder>('name');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PresetDraft>({ name: '', category: '', tags: '' });
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadedPreset = presets.find(p => p.id === loadedPresetId) ?? FACTORY_PRESETS.find(p => p.id === loadedPresetId);
+  const isFactoryLoaded = !!loadedPreset && !presets.includes(loadedPreset);
+
+  const visiblePresets = useMemo(
+    () => sortPresets(presets.filter(p => (!favoritesOnly || p.favorite) && matchesPresetSearch(p, search)), sortOrder),
+    [presets, favoritesOnly, search, sortOrder],
+  );
+
+  const factoryGroups = useMemo(
+    () => FACTORY_CATEGORIES
+      .map(category => ({ category, presets: FACTORY_PRESETS.filter(p => p.category === category && matchesPresetSearch(p, search)) }))
+      .filter(group => group.presets.length > 0),
+    [search],
+  );
+
+  const updatePreset = (id: string, changes: Partial<EQPreset>) => {
+    onPresetsChange(prev => prev.map(p => (p.id === id ? { ...p, ...changes } : p)));
+  };
+
+  const handleSaveNew = () => {
+    const name = newName.trim();
+    if (!name) return;
+    const now = Date.now();
+    const preset: EQPreset = { id: createPresetId(), name, ...current, createdAt: now, updatedAt: now };
+    onPresetsChange(prev => [...prev, preset]);
+    onLoadedPresetChange(preset.id);
+    setNewName('');
+    setMessages([`Saved "${name}"`]);
+  };
+
+  const handleSaveOver = () => {
+    if (!loadedPreset) return;
+    updatePreset(loadedPreset.id, { ...current, updatedAt: Date.now() });
+    setMessages([`Saved over "${loadedPreset.name}"`]);
+  };
+
+  const handleDuplicate = (preset: EQPreset) => {
+    onPresetsChange(prev => [...prev, duplicatePreset(preset, prev)]);
+  };
+
+  // Factory presets are read-only; a copy in the user bank can be edited freely
+  const handleCopyFactory = (preset: EQPreset) => {
+    onPresetsChange(prev => [...prev, { ...duplicatePreset(preset, prev), name: getUniquePresetName(preset.name, prev) }]);
+    setMessages([`Copied "${preset.name}" to My Presets`]);
+  };
+
+  const handleDelete = (preset: EQPreset) => {
+    onPresetsChange(prev => prev.filter(p => p.id !== preset.id));
+    if (preset.id === loadedPresetId) onLoadedPresetChange(null);
+    setConfirmDeleteId(null);
+  };
+
+  const startEditing = (preset: EQPreset) => {
+    setEditingId(preset.id);
+    setConfirmDeleteId(null);
+    setDraft({ name: preset.name, category: preset.category ?? '', tags: (preset.tags ?? []).join(', ') });
+  };
+
+  const commitEditing = () => {
+    if (!editingId || !draft.name.trim()) return;
+    const tags = parseTags(draft.tags);
+    updatePreset(editingId, {
+      name: draft.name.trim(),
+      category: draft.category.trim() || undefined,
+      tags: tags.length ? tags : undefined,
+      updatedAt: Date.now(),
+    });
+    setEditingId(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      // Anything that isn't JSON is treated as Equalizer APO / AutoEQ text
+      const isJson = /^\s*[[{]/.test(text);
+      let result: { value: EQPreset[] | null; warnings: string[] };
+      if (isJson) {
+        result = parsePresetFile(text);
+      } else {
+        const { value, warnings } = parseApoText(text);
+        const name = file.name.replace(/\.[^.]*$/, '') || 'Imported';
+        result = { value: value ? [{ id: createPresetId(), name, ...value }] : null, warnings };
+      }
+
+      const { value, warnings } = result;
+      if (!value) {
+        setMessages([`Could not import ${file.name}:`, ...warnings]);
+        return;
+      }
+      const now = Date.now();
+      onPresetsChange(prev => {
+        const imported: EQPreset[] = [];
+        for (const preset of value) {
+          // Fresh ids so an imported file never collides with (or replaces) an existing preset
+          imported.push({
+            ...preset,
+            id: createPresetId(),
+            name: getUniquePresetName(preset.name, [...prev, ...imported]),
+            createdAt: preset.createdAt ?? now,
+            updatedAt: preset.updatedAt ?? now,
+          });
+        }
+        return [...prev, ...imported];
+      });
+      setMessages([`Imported ${value.length} preset${value.length === 1 ? '' : 's'} from ${file.name}`, ...warnings]);
+    } catch (error) {
+      console.error('Error importing presets:', error);
+      setMessages([`Could not read ${file.name}`]);
+    }
+  };
+
+  const exportPresets = (list: EQPreset[], filename: string) => {
+    downloadFile(filename, serializePresets(list), 'application/json');
+  };
+
+  const handleApoExport = () => {
+    const { text, warnings } = formatApoText(current.bands, current.masterGain);
+    downloadFile(toFileName(loadedPreset?.name ?? 'VEVI_EQ', 'txt'), text);
+    setMessages(['Exported current curve as Equalizer APO text', ...warnings]);
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl max-w-lg w-full p-6">
+        <h2 className="text-xl font-bold mb-4">Presets</h2>
+
+        {/* Loaded preset */}
+        <div className="flex items-center justify-between mb-3 text-sm">
+          <div className="truncate">
+            <span className="text-slate-500">Current: </span>
+            {loadedPreset ? (
+              <>
+                <span className="font-medium">{loadedPreset.name}</span>
+                {isFactoryLoaded && <span className="ml-2 text-[10px] px-1.5 rounded bg-slate-700 text-slate-300">Factory</span>}
+                {isModified && <span className="ml-2 text-xs text-amber-400" title="The live curve differs from the saved preset">modified</span>}
+              </>
+            ) : (
+              <span className="text-slate-500 italic">unsaved</span>
+            )}
+          </div>
+          {loadedPreset && !isFactoryLoaded && (
+            <button
+              onClick={handleSaveOver}
+              disabled={!isModified}
+              className="bg-slate-800 hover:bg-slate-700 border border-slate-700 px-3 py-1 rounded text-xs font-bold disabled:opacity-40"
+            >
+              Save Over
+            </button>
+          )}
+        </div>
+
+        <div className="flex space-x-2 mb-4">
+          <input
+            value={newName} onChange={e => setNewName(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') handleSaveNew(); }}
+            className={`flex-1 ${inputClass}`}
+            placeholder="New Preset Name"
+          />
+          <button onClick={handleSaveNew} className="bg-blue-600 hover:bg-blue-500 px-4 py-2 rounded text-sm font-bold">Save</button>
+        </div>
+
+        {/* Bank tabs */}
+        <div className="flex space-x-4 mb-2 border-b border-slate-800 text-xs font-bold uppercase tracking-wider">
+          {([['user', `My Presets (${presets.length})`], ['factory', 'Factory']] as [PresetView, string][]).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setView(id)}
+              className={`pb-1.5 -mb-px border-b-2 transition-colors ${view === id ? 'border-blue-500 text-white' : 'border-transparent text-slate-500 hover:text-slate-300'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* Search, filter, sort */}
+        <div className="flex space-x-2 mb-2">
+          <input
+            value={search} onChange={e => setSearch(e.target.value)}
+            className={`flex-1 ${smallInputClass}`}
+            placeholder="Search name, category, tags"
+          />
+          {view === 'user' && (
+            <>
+              <button
+                onClick={() => setFavoritesOnly(!favoritesOnly)}
+                className={`px-2 rounded border text-xs ${favoritesOnly ? 'border-amber-500 text-amber-400' : 'border-slate-700 text-slate-500 hover:text-slate-300'}`}
+                title="Show favourites only"
+              >
+                {'★'}
+              </button>
+              <select value={sortOrder} onChange={e => setSortOrder(e.target.value as PresetSortOrder)} className={smallInputClass}>
+                {(Object.keys(PRESET_SORT_LABELS) as PresetSortOrder[]).map(order => (
+                  <option key={order} value={order}>{PRESET_SORT_LABELS[order]}</option>
+                ))}
+              </select>
+            </>
+          )}
+        </div>
+
+        {view === 'factory' && (
+          <div className="max-h-72 overflow-y-auto space-y-3">
+            {factoryGroups.map(group => (
+              <div key={group.category}>
+                <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-500 mb-1 px-2">{group.category}</h3>
+                <div className="space-y-1">
+                  {group.presets.map(p => (
+                    <div
+                      key={p.id}
+                      className={`flex justify-between items-center p-2 rounded group cursor-pointer ${p.id === loadedPresetId ? 'bg-blue-600/20' : 'hover:bg-slate-800'}`}
+                      onClick={() => onLoad(p)}
+                    >
+                      <div className="min-w-0 truncate">
+                        {p.name}
+                        {p.id === loadedPresetId && isModified && <span className="text-amber-400" title="Modified">{' *'}</span>}
+                        {p.tags?.map(tag => <span key={tag} className="ml-1 text-[10px] px-1.5 rounded border border-slate-700 text-slate-400">{tag}</span>)}
+                      </div>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleCopyFactory(p); }}
+                        className={`${rowActionClass} shrink-0 ml-2`}
+                        title="Copy to My Presets to edit it"
+                      >
+                        Copy
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+            {factoryGroups.length === 0 && <p className="text-slate-500 text-sm">No presets match.</p>}
+          </div>
+        )}
+
+        {view === 'user' && (
+          <div className="max-h-72 overflow-y-auto space-y-1">
+            {visiblePresets.map(p => {
+              if (p.id === editingId) {
+                return (
+                  <div key={p.id} className="p-2 bg-slate-800 rounded space-y-1.5">
+                    <input
+                      autoFocus value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })}
+                      onKeyDown={e => { if (e.key === 'Enter') commitEditing(); if (e.key === 'Escape') setEditingId(null); }}
+                      className={`w-full ${smallInputClass}`} placeholder="Name"
+                    />
+                    <div className="flex space-x-1.5">
+                      <input
+                        value={draft.category} onChange={e => setDraft({ ...draft, category: e.target.value })}
+                        className={`w-1/3 ${smallInputClass}`} placeholder="Category"
+                      />
+                      <input
+                        value={draft.tags} onChange={e => setDraft({ ...draft, tags: e.target.value })}
+                        className={`flex-1 ${smallInputClass}`} placeholder="Tags, comma separated"
+                      />
+                    </div>
+                    <div className="flex justify-end space-x-3 text-xs">
+                      <button onClick={() => setEditingId(null)} className="text-slate-400 hover:text-white">Cancel</button>
+                      <button onClick={commitEditing} disabled={!draft.name.trim()} className="text-blue-400 hover:text-blue-300 font-bold disabled:opacity-40">Save</button>
+                    </div>
+                  </div>
+                );
+              }
+
+              if (p.id === confirmDeleteId) {
+                return (
+                  <div key={p.id} className="flex justify-between items-center p-2 bg-red-950/40 border border-red-900/60 rounded text-sm">
+                    <span className="truncate">Delete "{p.name}"?</span>
+                    <div className="flex space-x-3 text-xs">
+                      <button onClick={() => setConfirmDeleteId(null)} className="text-slate-400 hover:text-white">Cancel</button>
+                      <button onClick={() => handleDelete(p)} className="text-red-400 hover:text-red-300 font-bold">Delete</button>
+                    </div>
+                  </div>
+                );
+              }
+
+              return (
+                <div
+                  key={p.id}
+                  className={`flex justify-between items-center p-2 rounded group cursor-pointer ${p.id === loadedPresetId ? 'bg-blue-600/20' : 'hover:bg-slate-800'}`}
+                  onClick={() => onLoad(p)}
+                >
+                  <div className="flex items-center min-w-0">
+                    <button
+                      onClick={(e) => { e.stopPropagation(); updatePreset(p.id, { favorite: p.favorite ? undefined : true }); }}
+                      className={`mr-2 text-sm ${p.favorite ? 'text-amber-400' : 'text-slate-600 hover:text-slate-400'}`}
+                      title={p.favorite ? 'Remove from favourites' : 'Add to favourites'}
+                    >
+                      {p.favorite ? '★' : '☆'}
+                    </button>
+                    <div className="min-w-0">
+                      <div className="truncate">
+                        {p.name}
+                        {p.id === loadedPresetId && isModified && <span className="text-amber-400" title="Modified">{' *'}</span>}
+                      </div>
+                      {(p.category || !!p.tags?.length) && (
+                        <div className="flex flex-wrap gap-1 mt-0.5">
+                          {p.category && <span className="text-[10px] px-1.5 rounded bg-slate-700 text-slate-300">{p.category}</span>}
+                          {p.tags?.map(tag => <span key={tag} className="text-[10px] px-1.5 rounded border border-slate-700 text-slate-400">{tag}</span>)}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex space-x-2 shrink-0 ml-2">
+                    <button onClick={(e) => { e.stopPropagation(); startEditing(p); }} className={rowActionClass}>Edit</button>
+                    <button onClick={(e) => { e.stopPropagation(); handleDuplicate(p); }} className={rowActionClass}>Duplicate</button>
+                    <button onClick={(e) => { e.stopPropagation(); exportPresets([p], toFileName(p.name, 'json')); }} className={rowActionClass}>Export</button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); setConfirmDeleteId(p.id); setEditingId(null); }}
+                      className="text-xs text-red-500 opacity-0 group-hover:opacity-100 hover:text-red-400"
+                    >
+                      Del
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+            {presets.length === 0 && <p className="text-slate-500 text-sm">No presets saved.</p>}
+            {presets.length > 0 && visiblePresets.length === 0 && <p className="text-slate-500 text-sm">No presets match.</p>}
+          </div>
+        )}
+
+        <div className="flex space-x-2 mt-4 pt-4 border-t border-slate-800">
+          <input ref={fileInputRef} type="file" accept=".json,.txt,application/json,text/plain" onChange={handleImport} className="hidden" />
+          <button onClick={() => fileInputRef.current?.click()} className={footerButtonClass}>
+            Import JSON / APO...
+          </button>
+          <button onClick={() => exportPresets(presets, 'VEVI_EQ_Presets.json')} disabled={presets.length === 0} className={footerButtonClass}>
+            Export All
+          </button>
+          <button onClick={handleApoExport} className={footerButtonClass} title="Export the current curve as Equalizer APO / AutoEQ text">
+            Export APO
+          </button>
+        </div>
+        {messages.length > 0 && (
+          <div className="mt-3 max-h-32 overflow-y-auto bg-slate-950 border border-slate-800 rounded p-2 text-xs space-y-0.5">
+            {messages.map((message, index) => (
+              <p key={index} className={index === 0 ? 'text-slate-300' : 'text-amber-400'}>{message}</p>
+            ))}
+          </div>
+        )}
+
+        <button onClick={onClose} className="mt-4 text-slate-400 hover:text-white text-sm w-full text-center">Close</button>
+      </div>
+    </div>
+  );
+};
+
+export default PresetManager;
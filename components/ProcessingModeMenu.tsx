@@ -0,0 +1,109 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EQBand, ProcessingMode, ProcessingSettings } from '../types';
+import { FIR_LENGTHS, PROCESSING_MODES, MIN_FREQ, MAX_FREQ, FIR_MAX_ERROR } from '../constants';
+import { getProcessingLatency } from '../utils/firDesign';
+
+interface ProcessingModeMenuProps {
+  settings: ProcessingSettings;
+  onChange: (settings: ProcessingSettings) => void;
+  bands: EQBand[];    // Effective bands
+  sampleRate: number; // Of the audio context, which the FIR is designed for
+  magnitudeError: number | null; // dB, of the running FIR; null while it is being measured
+  onOpenChange: (isOpen: boolean) => void; // The FIR is only measured while the menu is open
+}
+
+const labelClass = 'block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1';
+const selectClass = 'w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs focus:outline-none focus:border-blue-500';
+
+const MODE_DESCRIPTIONS: Record<ProcessingMode, string> = {
+  zeroLatency: 'Digital biquads: no delay, phase shift like an analog EQ, curves narrowing towards Nyquist.',
+  naturalPhase: 'Analog magnitude and phase up to Nyquist, as an FIR with a short delay.',
+  linearPhase: 'The same magnitude with no phase shift, as an FIR delayed by half its length. Pre-rings on steep or narrow bands.',
+};
+
+const formatLatency = (samples: number, sampleRate: number): string =>
+  samples === 0 ? '0 ms' : `${((samples / sampleRate) * 1000).toFixed(1)} ms`;
+
+const ProcessingModeMenu: React.FC<ProcessingModeMenuProps> = ({ settings, onChange, bands, sampleRate, magnitudeError, onOpenChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('pointerdown', handlePointerDown);
+    return () => window.removeEventListener('pointerdown', handlePointerDown);
+  }, [isOpen]);
+
+  useEffect(() => {
+    onOpenChange(isOpen);
+  }, [isOpen, onOpenChange]);
+
+  const latency = getProcessingLatency(settings);
+  const isFir = settings.mode !== 'zeroLatency';
+  const mode = PROCESSING_MODES.find(m => m.value === settings.mode) ?? PROCESSING_MODES[0];
+
+  const update = (changes: Partial<ProcessingSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div ref={containerRef} className="relative flex items-center">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center space-x-2 bg-slate-800/80 rounded-full px-3 py-1 border text-xs transition-colors ${isOpen ? 'border-blue-500' : 'border-slate-700 hover:border-slate-500'}`}
+        title="Processing Mode"
+      >
+        <span className="text-slate-400">Mode</span>
+        <span className="font-medium">{mode.shortLabel}</span>
+        {latency > 0 && <span className="font-mono text-amber-300">{formatLatency(latency, sampleRate)}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-3 z-40 w-64 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl p-3 space-y-2 text-slate-200">
+          <div>
+            <label className={labelClass}>Processing</label>
+            <select value={settings.mode} onChange={e => update({ mode: e.target.value as ProcessingMode })} className={selectClass}>
+              {PROCESSING_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+            </select>
+            <p className="text-[10px] text-slate-500 mt-1">{MODE_DESCRIPTIONS[settings.mode]}</p>
+          </div>
+
+          <div className={isFir ? '' : 'opacity-40 pointer-events-none'}>
+            <label className={labelClass}>FIR Length</label>
+            <select value={settings.firLength} onChange={e => update({ firLength: parseInt(e.target.value, 10) })} className={selectClass}>
+              {FIR_LENGTHS.map(length => (
+                <option key={length} value={length}>
+                  {length / 1024}k taps{settings.mode === 'linearPhase' ? `, ${formatLatency(length / 2, sampleRate)}` : ''}
+                </option>
+              ))}
+            </select>
+            <p className="text-[10px] text-slate-500 mt-1">Longer filters follow low, narrow bands more closely.</p>
+          </div>
+
+          <div className="border-t border-slate-700 pt-2 text-xs space-y-1">
+            <div className="flex justify-between">
+              <span className="text-slate-400">Latency</span>
+              <span className="font-mono">{latency} samples ({formatLatency(latency, sampleRate)})</span>
+            </div>
+            {isFir && (
+              <div className="flex justify-between" title={`Largest magnitude difference from the ${settings.mode === 'linearPhase' ? 'zero-latency' : 'analog'} curve, ${MIN_FREQ} Hz to ${MAX_FREQ / 1000} kHz, cut stopbands excluded`}>
+                <span className="text-slate-400">FIR accuracy</span>
+                {magnitudeError === null
+                  ? <span className="font-mono text-slate-500">…</span>
+                  : <span className={`font-mono ${magnitudeError > FIR_MAX_ERROR ? 'text-amber-300' : ''}`}>±{magnitudeError.toFixed(2)} dB</span>}
+              </div>
+            )}
+          </div>
+
+          {isFir && bands.some(band => band.enabled && band.isDynamic) && (
+            <p className="text-[10px] text-amber-300/80">Dynamic bands only move in Zero Latency mode; here they stay at their set gain.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProcessingModeMenu;
@@ -0,0 +1,161 @@
+import React, { useRef, useState } from 'react';
+import { EQBand, ProcessingSettings } from '../types';
+import { RenderResult, decodeAudioFile, renderOffline } from '../utils/offlineRender';
+import { WavBitDepth, WAV_BIT_DEPTHS, encodeWav } from '../utils/wav';
+import { downloadFile, toFileName } from '../utils/fileUtils';
+
+interface RenderModalProps {
+  bands: EQBand[];     // Effective bands (bypass and solo resolved), as heard
+  masterGain: number;
+  processing: ProcessingSettings;
+  sampleRate: number;  // Used when the file's own rate cannot be read (MP3)
+  onClose: () => void;
+}
+
+const labelClass = 'block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1';
+
+const toDb = (value: number): string => (value > 0 ? (20 * Math.log10(value)).toFixed(2) : '-inf');
+
+const RenderModal: React.FC<RenderModalProps> = ({ bands, masterGain, processing, sampleRate, onClose }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [bitDepth, setBitDepth] = useState<WavBitDepth>(24);
+  const [dither, setDither] = useState(true);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<RenderResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] ?? null);
+    setResult(null);
+    setError(null);
+    setProgress(null);
+  };
+
+  const handleRender = async () => {
+    if (!file) return;
+    setResult(null);
+    setError(null);
+    setProgress(0);
+    setIsRendering(true);
+    try {
+      const source = await decodeAudioFile(await file.arrayBuffer(), sampleRate);
+      setResult(await renderOffline(source, bands, masterGain, processing, setProgress));
+    } catch (err) {
+      console.error('Offline render failed', err);
+      setError(`Could not render "${file.name}": ${err instanceof Error ? err.message : 'the file could not be decoded'}`);
+      setProgress(null);
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!file || !result) return;
+    const wav = encodeWav(result.channels, result.sampleRate, bitDepth, dither && bitDepth !== 32);
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+    downloadFile(toFileName(`${baseName} EQ`, 'wav'), wav, 'audio/wav');
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-600 rounded-xl shadow-2xl max-w-lg w-full p-6 relative animate-fade-in-up">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">Render Audio File</h2>
+            <p className="text-xs text-slate-400">Process a WAV, FLAC or MP3 through the current EQ, dynamics included</p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <label className={labelClass}>Source</label>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isRendering}
+                className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded text-sm disabled:opacity-40"
+              >
+                Choose File...
+              </button>
+              <span className="text-xs text-slate-400 truncate">{file ? file.name : 'No file selected'}</span>
+              <input ref={fileInputRef} type="file" accept="audio/*,.wav,.flac,.mp3" onChange={handleFileChange} className="hidden" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={labelClass}>Format</label>
+              <select
+                value={bitDepth}
+                onChange={e => setBitDepth(parseInt(e.target.value, 10) as WavBitDepth)}
+                className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-1.5 text-sm focus:outline-none focus:border-blue-500"
+              >
+                {WAV_BIT_DEPTHS.map(depth => <option key={depth.value} value={depth.value}>WAV {depth.label}</option>)}
+              </select>
+            </div>
+            <label className={`flex items-center space-x-2 text-sm mt-5 ${bitDepth === 32 ? 'opacity-40' : 'cursor-pointer'}`}>
+              <input
+                type="checkbox" checked={dither && bitDepth !== 32} disabled={bitDepth === 32}
+                onChange={e => setDither(e.target.checked)} className="accent-blue-500"
+              />
+              <span>TPDF dither</span>
+            </label>
+          </div>
+
+          {progress !== null && (
+            <div>
+              <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+              </div>
+              <p className="text-[10px] text-slate-500 mt-1">{result ? 'Done' : `Rendering... ${Math.round(progress * 100)}%`}</p>
+            </div>
+          )}
+
+          {result && (
+            <p className="text-xs text-slate-400">
+              {(result.channels[0].length / result.sampleRate).toFixed(1)} s at {result.sampleRate} Hz, peak {toDb(result.peak)} dBFS
+            </p>
+          )}
+
+          {result && result.clippedSamples > 0 && (
+            <div className="p-2 bg-red-900/30 border border-red-700/50 rounded text-xs text-red-200">
+              Output exceeds 0 dBFS by {toDb(result.peak)} dB ({result.clippedSamples} samples).
+              {bitDepth === 32
+                ? ' 32-bit float keeps the overs, but they will clip on playback.'
+                : ' They will be clipped in the file; lower the output gain or export 32-bit float.'}
+            </div>
+          )}
+
+          {error && (
+            <div className="p-2 bg-red-900/30 border border-red-700/50 rounded text-xs text-red-200">{error}</div>
+          )}
+        </div>
+
+        <div className="mt-6 flex gap-2">
+          <button
+            onClick={handleRender}
+            disabled={!file || isRendering}
+            className="flex-1 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-200 py-2 rounded-lg font-bold text-sm transition-colors disabled:opacity-40"
+          >
+            {isRendering ? 'Rendering...' : 'Render'}
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={!result}
+            className="flex-1 bg-blue-600 hover:bg-blue-500 text-white py-2 rounded-lg font-bold text-sm transition-colors disabled:opacity-40"
+          >
+            Download WAV
+          </button>
+          <button onClick={onClose} className="px-4 text-slate-500 hover:text-white py-2 text-xs">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RenderModal;
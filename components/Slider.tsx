@@ -8,6 +8,7 @@ interface SliderProps {
   step: number;
   value: number;
   onChange: (value: number) => void;
+  onChangeEnd?: () => void; // Release of the slider, or leaving the number field
   className?: string;
   valueSuffix?: string;
 }
@@ -19,6 +20,7 @@ const Slider: React.FC<SliderProps> = ({
   step,
   value,
   onChange,
+  onChangeEnd,
   className = '',
   valueSuffix = '',
 }) => {
@@ -42,6 +44,7 @@ const Slider: React.FC<SliderProps> = ({
       num = value; // Revert to current value if invalid
     }
     onChange(Math.max(min, Math.min(max, num))); // Clamp to min/max
+    onChangeEnd?.();
   };
 
   return (
@@ -54,6 +57,8 @@ const Slider: React.FC<SliderProps> = ({
         step={step}
         value={value}
         onChange={handleChange}
+        onPointerUp={onChangeEnd}
+        onKeyUp={onChangeEnd}
         className="w-full h-2 bg-gray-700 rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-blue-500 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:shadow-md
                    [&::-moz-range-thumb]:bg-blue-500 [&::-moz-range-thumb]:border-none [&::-moz-range-thumb]:w-3 [&::-moz-range-thumb]:h-3 [&::-moz-range-thumb]:rounded-full"
       />
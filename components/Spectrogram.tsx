@@ -0,0 +1,92 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { FrequencyPoint, SpectrogramSettings } from '../types';
+import { GRAPH_MARGIN, SPECTROGRAM_RANGE } from '../constants';
+import { COLOR_MAP_SIZE, createColorMap } from '../utils/colorMaps';
+
+interface SpectrogramProps {
+  spectrum: FrequencyPoint[]; // Latest analyzer frame (dBFS, log-spaced from MIN_FREQ to MAX_FREQ)
+  settings: SpectrogramSettings;
+  margin?: typeof GRAPH_MARGIN; // The response graph's, so the plot areas coincide
+}
+
+/**
+ * Scrolling spectrogram drawn on a canvas that covers the response graph's plot area, so its
+ * columns line up with the graph's log frequency axis (and the band handles drawn over it).
+ * Newest frame at the top; the canvas scrolls down at a rate set by the history length.
+ */
+const Spectrogram: React.FC<SpectrogramProps> = ({ spectrum, settings, margin = GRAPH_MARGIN }) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const lastFrameRef = useRef<number>(0);
+  const pendingRowsRef = useRef<number>(0); // Fraction of a pixel row not yet scrolled
+
+  const colorMap = useMemo(() => createColorMap(settings.colorMap), [settings.colorMap]);
+
+  // Match the canvas resolution to its size; resizing starts a fresh history
+  useEffect(() => {
+    const handleResize = () => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      canvas.width = Math.max(1, canvas.clientWidth);
+      canvas.height = Math.max(1, canvas.clientHeight);
+    };
+    handleResize();
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, [margin]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || spectrum.length < 2) return;
+
+    const now = performance.now();
+    const elapsed = Math.min(0.25, (now - lastFrameRef.current) / 1000);
+    lastFrameRef.current = now;
+
+    pendingRowsRef.current += (elapsed * canvas.height) / settings.historyLength;
+    const rows = Math.floor(pendingRowsRef.current);
+    if (rows < 1) return;
+    pendingRowsRef.current -= rows;
+
+    // Scroll the history down, then paint the new frame into the rows uncovered at the top
+    ctx.drawImage(canvas, 0, rows);
+
+    const { width } = canvas;
+    const image = ctx.createImageData(width, rows);
+    const lastPoint = spectrum.length - 1;
+    for (let x = 0; x < width; x++) {
+      // The spectrum points are evenly spaced on the log axis, like the canvas columns
+      const position = (x / Math.max(1, width - 1)) * lastPoint;
+      const index = Math.min(lastPoint - 1, Math.floor(position));
+      const level = spectrum[index].gain + (spectrum[index + 1].gain - spectrum[index].gain) * (position - index);
+
+      const t = (level - SPECTROGRAM_RANGE.min) / (SPECTROGRAM_RANGE.max - SPECTROGRAM_RANGE.min);
+      const entry = Math.round(Math.max(0, Math.min(1, t)) * (COLOR_MAP_SIZE - 1)) * 3;
+      for (let y = 0; y < rows; y++) {
+        const pixel = (y * width + x) * 4;
+        image.data[pixel] = colorMap[entry];
+        image.data[pixel + 1] = colorMap[entry + 1];
+        image.data[pixel + 2] = colorMap[entry + 2];
+        image.data[pixel + 3] = 255;
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+  }, [spectrum, settings.historyLength, colorMap]);
+
+  return (
+    <div className="absolute inset-0 bg-slate-900 rounded-lg overflow-hidden pointer-events-none">
+      <canvas
+        ref={canvasRef}
+        className="absolute"
+        style={{
+          left: margin.left,
+          top: margin.top,
+          width: `calc(100% - ${margin.left + margin.right}px)`,
+          height: `calc(100% - ${margin.top + margin.bottom}px)`,
+        }}
+      />
+    </div>
+  );
+};
+
+export default Spectrogram;
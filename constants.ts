@@ -1,5 +1,5 @@
 
-import { BandType, EQBand } from './types';
+import { AnalyzerSettings, AnalyzerWindow, BandType, DynamicMode, EQBand, ProcessingMode, ProcessingSettings, SpectrogramColorMap, SpectrogramSettings } from './types';
 
 export const MIN_FREQ = 20;
 export const MAX_FREQ = 20000;
@@ -7,17 +7,94 @@ export const MIN_GAIN = -30;
 export const MAX_GAIN = 30;
 export const MIN_Q = 0.1;
 export const MAX_Q = 10;
+export const DEFAULT_Q = 1.0; // For bands created on the graph
+export const MAX_BANDS = 24;
+export const CUT_SLOPES = [6, 12, 18, 24, 36, 48]; // dB/oct
+export const DEFAULT_SLOPE = 12;
+export const DEFAULT_CUT_Q = 0.71; // Butterworth (maximally flat)
 export const NUM_FREQUENCY_POINTS = 500; // For graph resolution
-export const NUM_SPECTRUM_POINTS = 100; // For analyzer resolution
+export const NUM_SPECTRUM_POINTS = 300; // For analyzer resolution (30 per octave, enough for 1/24-octave smoothing)
+export const SPECTRUM_DISPLAY_OFFSET = 30; // dB added to measured dBFS levels so -60..0 dBFS fills the graph
+
+// Real-time analyzer options
+export const ANALYZER_FFT_SIZES = [1024, 2048, 4096, 8192, 16384, 32768];
+export const ANALYZER_WINDOWS: { value: AnalyzerWindow; label: string }[] = [
+  { value: 'hann', label: 'Hann' },
+  { value: 'blackman-harris', label: 'Blackman-Harris' },
+  { value: 'flat-top', label: 'Flat-Top' }, // Accurate sine levels, wide peaks
+];
+export const OCTAVE_SMOOTHING_OPTIONS = [0, 1, 3, 6, 12, 24]; // 1/N octave, 0 = off
+export const AVERAGING_TIMES = [0, 0.1, 0.3, 1, 3]; // seconds
+export const DEFAULT_ANALYZER_SETTINGS: AnalyzerSettings = { fftSize: 8192, window: 'hann', octaveSmoothing: 6, averagingTime: 0.3 };
+export const PEAK_HOLD_DECAY = 6; // dB per second
+export const SPECTRUM_COLORS = { input: '#f59e0b', output: '#9ca3af', reference: '#e879f9' }; // amber / gray-400 / fuchsia
+export const MATCH_COLORS = { target: '#34d399', residual: '#f87171' }; // emerald / red
+export const NUM_MATCH_POINTS = 120; // Target curve resolution for EQ matching and fitting (12 per octave)
+
+// Spectrogram (scrolling time x frequency view behind the graph)
+export const SPECTROGRAM_HISTORY_LENGTHS = [5, 10, 20, 60]; // seconds
+export const SPECTROGRAM_COLOR_MAPS: { value: SpectrogramColorMap; label: string }[] = [
+  { value: 'magma', label: 'Magma' },
+  { value: 'viridis', label: 'Viridis' },
+  { value: 'inferno', label: 'Inferno' },
+  { value: 'turbo', label: 'Turbo' },
+  { value: 'grayscale', label: 'Grayscale' },
+];
+export const SPECTROGRAM_RANGE = { min: -100, max: 0 }; // dBFS mapped onto the colour map
+export const DEFAULT_SPECTROGRAM_SETTINGS: SpectrogramSettings = { enabled: false, historyLength: 10, colorMap: 'magma' };
+
+export const GRAPH_MARGIN = { top: 20, right: 20, bottom: 30, left: 40 }; // Plot area inset of the response graph, shared by the spectrogram
+export const RIGHT_AXIS_WIDTH = 40; // Extra right margin per phase / group delay axis
+export const PHASE_COLOR = '#f472b6';       // pink-400
+export const GROUP_DELAY_COLOR = '#facc15'; // yellow-400
+export const GROUP_DELAY_DISPLAY_MAX = 50;  // ms; the axis stops here so a notch's spike cannot flatten the rest
+export const SAMPLE_RATES = [44100, 48000, 88200, 96000];
+export const DEFAULT_SAMPLE_RATE = 48000; // Used for the response graph and filter design
+
+// Band colours are assigned by id, cycling through this palette
+export const BAND_COLORS = [
+  '#ef4444', '#f97316', '#eab308', '#22c55e', '#06b6d4', '#3b82f6', '#a855f7', // red .. purple
+  '#ec4899', '#14b8a6', '#84cc16', '#6366f1', '#f59e0b', '#10b981', '#0ea5e9', '#d946ef', '#f43f5e',
+];
+
+// Dynamic EQ detector settings and their control ranges
+export const DEFAULT_DYNAMICS = { threshold: -30, ratio: 2, attack: 10, release: 100, dynamicMode: DynamicMode.ABOVE };
+export const THRESHOLD_RANGE = { min: -60, max: 0 };
+export const RATIO_RANGE = { min: 1, max: 20 };
+export const ATTACK_RANGE = { min: 1, max: 200 };     // ms
+export const RELEASE_RANGE = { min: 10, max: 2000 };  // ms
+export const DYNAMIC_RANGE_MAX = 12;                  // dB
 
 export const DEFAULT_BANDS: EQBand[] = [
-  { id: 1, type: BandType.LOW_SHELF, frequency: 60, gain: 0, q: 4.0, enabled: true, color: '#ef4444', isDynamic: false, dynamicRange: 6, solo: false }, // red
-  { id: 2, type: BandType.PEAK, frequency: 150, gain: 0, q: 4.0, enabled: true, color: '#f97316', isDynamic: false, dynamicRange: 6, solo: false }, // orange
-  { id: 3, type: BandType.PEAK, frequency: 400, gain: 0, q: 4.0, enabled: true, color: '#eab308', isDynamic: false, dynamicRange: 6, solo: false }, // yellow
-  { id: 4, type: BandType.PEAK, frequency: 1000, gain: 0, q: 4.0, enabled: true, color: '#22c55e', isDynamic: false, dynamicRange: 6, solo: false }, // green
-  { id: 5, type: BandType.PEAK, frequency: 2500, gain: 0, q: 4.0, enabled: true, color: '#06b6d4', isDynamic: false, dynamicRange: 6, solo: false }, // cyan
-  { id: 6, type: BandType.PEAK, frequency: 6000, gain: 0, q: 4.0, enabled: true, color: '#3b82f6', isDynamic: false, dynamicRange: 6, solo: false }, // blue
-  { id: 7, type: BandType.HIGH_SHELF, frequency: 12000, gain: 0, q: 4.0, enabled: true, color: '#a855f7', isDynamic: false, dynamicRange: 6, solo: false }, // purple
+  { id: 1, type: BandType.LOW_SHELF, frequency: 60, gain: 0, q: 4.0, enabled: true, color: '#ef4444', isDynamic: false, dynamicRange: 6, ...DEFAULT_DYNAMICS, solo: false }, // red
+  { id: 2, type: BandType.PEAK, frequency: 150, gain: 0, q: 4.0, enabled: true, color: '#f97316', isDynamic: false, dynamicRange: 6, ...DEFAULT_DYNAMICS, solo: false }, // orange
+  { id: 3, type: BandType.PEAK, frequency: 400, gain: 0, q: 4.0, enabled: true, color: '#eab308', isDynamic: false, dynamicRange: 6, ...DEFAULT_DYNAMICS, solo: false }, // yellow
+  { id: 4, type: BandType.PEAK, frequency: 1000, gain: 0, q: 4.0, enabled: true, color: '#22c55e', isDynamic: false, dynamicRange: 6, ...DEFAULT_DYNAMICS, solo: false }, // green
+  { id: 5, type: BandType.PEAK, frequency: 2500, gain: 0, q: 4.0, enabled: true, color: '#06b6d4', isDynamic: false, dynamicRange: 6, ...DEFAULT_DYNAMICS, solo: false }, // cyan
+  { id: 6, type: BandType.PEAK, frequency: 6000, gain: 0, q: 4.0, enabled: true, color: '#3b82f6', isDynamic: false, dynamicRange: 6, ...DEFAULT_DYNAMICS, solo: false }, // blue
+  { id: 7, type: BandType.HIGH_SHELF, frequency: 12000, gain: 0, q: 4.0, enabled: true, color: '#a855f7', isDynamic: false, dynamicRange: 6, ...DEFAULT_DYNAMICS, solo: false }, // purple
+];
+
+// Band types whose gain parameter has no effect
+export const GAINLESS_BAND_TYPES: BandType[] = [BandType.LOW_CUT, BandType.HIGH_CUT, BandType.NOTCH, BandType.BAND_PASS];
+// Band types built as a cascade with a selectable slope
+export const CUT_BAND_TYPES: BandType[] = [BandType.LOW_CUT, BandType.HIGH_CUT];
+
+export const EQ_PROCESSOR_NAME = 'vevi-eq-processor'; // AudioWorklet registration name
+
+// Processing modes
+export const PROCESSING_MODES: { value: ProcessingMode; label: string; shortLabel: string }[] = [
+  { value: 'zeroLatency', label: 'Zero Latency', shortLabel: 'Zero Lat.' },
+  { value: 'naturalPhase', label: 'Natural Phase', shortLabel: 'Natural' },
+  { value: 'linearPhase', label: 'Linear Phase', shortLabel: 'Linear' },
 ];
+export const FIR_LENGTHS = [2048, 4096, 8192, 16384, 32768]; // Taps
+export const DEFAULT_PROCESSING_SETTINGS: ProcessingSettings = { mode: 'zeroLatency', firLength: 8192 };
+export const CONVOLVER_BLOCK_SIZE = 128; // Samples; the FIR partition size, one AudioWorklet render quantum
+export const NATURAL_PHASE_LATENCY = 64; // Samples the natural-phase FIR starts early, to keep its ripple near Nyquist causal
+export const FIR_CHECK_FLOOR = -40; // dB; the FIR magnitude check skips stopbands below this
+export const FIR_MAX_ERROR = 1; // dB; an FIR further off than this is flagged (mode menu) and fails scripts/checkFir.ts
+
+export const SLOT_NAMES = ['A', 'B', 'C', 'D']; // A/B comparison slots
 
 export const MASTER_GAIN_RANGE = { min: -12, max: 12 };
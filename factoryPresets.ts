@@ -0,0 +1,181 @@
+import { EQBand, EQPreset, BandType, DynamicMode } from './types';
+import { DEFAULT_DYNAMICS, DEFAULT_SLOPE } from './constants';
+import { getBandColor } from './utils/bandUtils';
+
+/**
+ * Read-only starting points bundled with the app.
+ * Ids are fixed ("factory-...") so they never collide with user presets, and the preset manager
+ * can tell a loaded factory preset from a user one (the loaded preset is not kept across reloads).
+ */
+
+type BandSpec = [type: BandType, frequency: number, gain: number, q: number, extra?: Partial<EQBand>];
+
+const makeBands = (specs: BandSpec[]): EQBand[] =>
+  specs.map(([type, frequency, gain, q, extra], index) => ({
+    id: index + 1,
+    type,
+    frequency,
+    gain,
+    q,
+    enabled: true,
+    color: getBandColor(index + 1),
+    isDynamic: false,
+    dynamicRange: 6,
+    ...DEFAULT_DYNAMICS,
+    solo: false,
+    ...(type === BandType.LOW_CUT || type === BandType.HIGH_CUT ? { slope: DEFAULT_SLOPE } : {}),
+    ...extra,
+  }));
+
+const preset = (id: string, category: string, name: string, specs: BandSpec[], masterGain: number = 0, tags: string[] = []): EQPreset => ({
+  id: `factory-${id}`,
+  name,
+  category,
+  tags,
+  bands: makeBands(specs),
+  masterGain,
+});
+
+// Listed in this order in the Presets modal
+export const FACTORY_CATEGORIES = ['Vocals', 'Drums', 'Bass', 'Guitar & Keys', 'Mastering', 'De-Mud', 'Air', 'Utility'];
+
+export const FACTORY_PRESETS: EQPreset[] = [
+  // --- VOCALS ---
+  preset('vocal-presence', 'Vocals', 'Vocal Presence', [
+    [BandType.LOW_CUT, 80, 0, 0.71],
+    [BandType.PEAK, 250, -2, 1.2],
+    [BandType.PEAK, 3000, 2.5, 1.0],
+    [BandType.HIGH_SHELF, 10000, 2, 0.71],
+  ], 0, ['lead', 'clarity']),
+  preset('vocal-de-ess', 'Vocals', 'Dynamic De-Esser', [
+    [BandType.LOW_CUT, 70, 0, 0.71],
+    [BandType.PEAK, 6500, 0, 3, { isDynamic: true, dynamicRange: 8, threshold: -30, ratio: 4, attack: 1, release: 60 }],
+  ], 0, ['sibilance', 'dynamic']),
+  preset('podcast-voice', 'Vocals', 'Podcast Voice', [
+    [BandType.LOW_CUT, 90, 0, 0.71, { slope: 18 }],
+    [BandType.PEAK, 180, 1.5, 1.0],
+    [BandType.PEAK, 400, -2.5, 1.5],
+    [BandType.PEAK, 4000, 2, 1.2],
+    [BandType.HIGH_CUT, 16000, 0, 0.71],
+  ], 0, ['speech', 'broadcast']),
+  preset('backing-vocals', 'Vocals', 'Backing Vocals', [
+    [BandType.LOW_CUT, 150, 0, 0.71, { slope: 18 }],
+    [BandType.PEAK, 2500, -2, 1.0],
+    [BandType.HIGH_SHELF, 8000, 2.5, 0.71],
+  ], 0, ['stack', 'tuck']),
+
+  // --- DRUMS ---
+  preset('kick-punch', 'Drums', 'Kick Punch', [
+    [BandType.LOW_CUT, 30, 0, 0.71, { slope: 24 }],
+    [BandType.PEAK, 60, 3, 1.4],
+    [BandType.PEAK, 350, -4, 1.5],
+    [BandType.PEAK, 4000, 3, 2],
+  ], 0, ['kick', 'click']),
+  preset('snare-crack', 'Drums', 'Snare Crack', [
+    [BandType.LOW_CUT, 100, 0, 0.71],
+    [BandType.PEAK, 200, 2, 1.5],
+    [BandType.PEAK, 900, -2, 2],
+    [BandType.PEAK, 5000, 3, 1.2],
+  ], 0, ['snare']),
+  preset('overheads', 'Drums', 'Overheads', [
+    [BandType.LOW_CUT, 150, 0, 0.71],
+    [BandType.PEAK, 400, -2, 1.0],
+    [BandType.HIGH_SHELF, 12000, 2.5, 0.71],
+  ], 0, ['cymbals', 'room']),
+
+  // --- BASS ---
+  preset('bass-definition', 'Bass', 'Bass Definition', [
+    [BandType.LOW_CUT, 35, 0, 0.71, { slope: 24 }],
+    [BandType.PEAK, 80, 2, 1.0],
+    [BandType.PEAK, 250, -3, 1.4],
+    [BandType.PEAK, 800, 2.5, 1.5],
+  ], 0, ['growl', 'articulation']),
+  preset('bass-tighten', 'Bass', 'Tighten Low End', [
+    [BandType.LOW_CUT, 30, 0, 0.71, { slope: 24 }],
+    [BandType.PEAK, 100, 0, 1.5, { isDynamic: true, dynamicRange: 6, threshold: -24, ratio: 3, attack: 10, release: 150 }],
+  ], 0, ['boom', 'dynamic']),
+
+  // --- GUITAR & KEYS ---
+  preset('acoustic-guitar', 'Guitar & Keys', 'Acoustic Guitar', [
+    [BandType.LOW_CUT, 90, 0, 0.71],
+    [BandType.PEAK, 200, -3, 1.2],
+    [BandType.PEAK, 5000, 2, 1.0],
+    [BandType.HIGH_SHELF, 12000, 1.5, 0.71],
+  ], 0, ['strum', 'body']),
+  preset('electric-guitar', 'Guitar & Keys', 'Electric Guitar Bite', [
+    [BandType.LOW_CUT, 100, 0, 0.71],
+    [BandType.PEAK, 1500, 2, 1.2],
+    [BandType.PEAK, 3500, -1.5, 2.5],
+    [BandType.HIGH_CUT, 9000, 0, 0.71],
+  ], 0, ['distortion', 'fizz']),
+  preset('piano', 'Guitar & Keys', 'Piano Clarity', [
+    [BandType.LOW_CUT, 40, 0, 0.71],
+    [BandType.PEAK, 300, -1.5, 1.0],
+    [BandType.PEAK, 2500, 1.5, 0.8],
+  ], 0, ['keys']),
+
+  // --- MASTERING ---
+  preset('master-glue', 'Mastering', 'Gentle Master Polish', [
+    [BandType.LOW_CUT, 20, 0, 0.71],
+    [BandType.LOW_SHELF, 80, 1, 0.71],
+    [BandType.PEAK, 300, -0.8, 0.8],
+    [BandType.HIGH_SHELF, 12000, 1.2, 0.71],
+  ], 0, ['subtle', 'broad']),
+  preset('master-warm', 'Mastering', 'Warm Tilt', [
+    [BandType.TILT_SHELF, 1000, -2, 0.5],
+  ], 0, ['tilt', 'dark']),
+  preset('master-bright', 'Mastering', 'Bright Tilt', [
+    [BandType.TILT_SHELF, 1000, 2, 0.5],
+  ], 0, ['tilt', 'bright']),
+  preset('loudness-smile', 'Mastering', 'Loudness Smile', [
+    [BandType.LOW_SHELF, 100, 2, 0.71],
+    [BandType.HIGH_SHELF, 10000, 2, 0.71],
+  ], -2, ['low volume', 'curve']),
+  preset('master-harshness', 'Mastering', 'Tame Harshness', [
+    [BandType.PEAK, 3200, 0, 1.5, { isDynamic: true, dynamicRange: 4, threshold: -28, ratio: 2.5, attack: 5, release: 120 }],
+  ], 0, ['dynamic', 'smooth']),
+
+  // --- DE-MUD ---
+  preset('de-mud', 'De-Mud', 'De-Mud', [
+    [BandType.PEAK, 300, -3, 1.2],
+    [BandType.PEAK, 500, -1.5, 1.5],
+  ], 0, ['low mids']),
+  preset('boxiness', 'De-Mud', 'Remove Boxiness', [
+    [BandType.PEAK, 600, -3, 2],
+  ], 0, ['low mids', 'room']),
+  preset('mud-dynamic', 'De-Mud', 'Dynamic Mud Control', [
+    [BandType.PEAK, 250, 0, 1.2, { isDynamic: true, dynamicRange: 6, threshold: -30, ratio: 3, attack: 15, release: 200 }],
+  ], 0, ['dynamic']),
+
+  // --- AIR ---
+  preset('air-lift', 'Air', 'Air Lift', [
+    [BandType.HIGH_SHELF, 12000, 3, 0.71],
+  ], 0, ['top end']),
+  preset('air-sparkle', 'Air', 'Air & Sparkle', [
+    [BandType.PEAK, 16000, 2.5, 0.7],
+    [BandType.PEAK, 8000, 1, 1.0],
+  ], 0, ['top end', 'shine']),
+
+  // --- UTILITY ---
+  preset('hum-50', 'Utility', 'Hum Removal 50 Hz', [
+    [BandType.NOTCH, 50, 0, 10],
+    [BandType.NOTCH, 100, 0, 10],
+    [BandType.NOTCH, 150, 0, 10],
+  ], 0, ['noise', 'mains']),
+  preset('hum-60', 'Utility', 'Hum Removal 60 Hz', [
+    [BandType.NOTCH, 60, 0, 10],
+    [BandType.NOTCH, 120, 0, 10],
+    [BandType.NOTCH, 180, 0, 10],
+  ], 0, ['noise', 'mains']),
+  preset('telephone', 'Utility', 'Telephone', [
+    [BandType.LOW_CUT, 400, 0, 0.71, { slope: 24 }],
+    [BandType.PEAK, 1500, 3, 1.0],
+    [BandType.HIGH_CUT, 3400, 0, 0.71, { slope: 24 }],
+  ], 0, ['lo-fi', 'effect']),
+  preset('rumble-cut', 'Utility', 'Rumble Cut', [
+    [BandType.LOW_CUT, 40, 0, 0.71, { slope: 36 }],
+  ], 0, ['subsonic']),
+  preset('expander-below', 'Utility', 'Low-Level Bass Expander', [
+    [BandType.LOW_SHELF, 120, 0, 0.71, { isDynamic: true, dynamicMode: DynamicMode.BELOW, dynamicRange: 6, threshold: -40, ratio: 2, attack: 20, release: 250 }],
+  ], 0, ['dynamic', 'noise']),
+];
@@ -0,0 +1,88 @@
+/**
+ * Offline check of the natural- and linear-phase FIRs (npm run check:fir): designs them with
+ * designFir for representative curves and asserts that their magnitude stays within
+ * FIR_MAX_ERROR of what the mode aims for (see getFirMagnitudeError).
+ *
+ * How long an FIR has to be depends on the curve: narrow and steep low bands ring for longer,
+ * and a linear-phase FIR has to hold that ringing on both sides of its centre. So every curve
+ * names, per mode, the shortest FIR length from which it must pass. All at 48 kHz; higher
+ * sample rates need proportionally more taps.
+ */
+import { BandType, EQBand, ProcessingMode } from '../types';
+import { FIR_LENGTHS, DEFAULT_PROCESSING_SETTINGS, FIR_MAX_ERROR } from '../constants';
+import { FACTORY_PRESETS } from '../factoryPresets';
+import { designFir, getFirMagnitudeError } from '../utils/firDesign';
+import { getBandColor } from '../utils/bandUtils';
+
+type FirMode = Exclude<ProcessingMode, 'zeroLatency'>;
+
+interface CheckCase {
+  name: string;
+  bands: EQBand[];
+  // Shortest FIR length that must stay within FIR_MAX_ERROR, or null when none of FIR_LENGTHS
+  // is long enough (only the longest is then reported)
+  minLength: Record<FirMode, number | null>;
+}
+
+const SAMPLE_RATE = 48000;
+const FIR_MODES: FirMode[] = ['naturalPhase', 'linearPhase'];
+const DEFAULT_LENGTH = DEFAULT_PROCESSING_SETTINGS.firLength;
+
+const band = (id: number, type: BandType, frequency: number, gain: number, q: number, slope?: number): EQBand =>
+  ({ id, type, frequency, gain, q, enabled: true, color: getBandColor(id), slope });
+
+// The factory curves must all work at the default length, except where noted
+const FACTORY_MIN_LENGTHS: Record<string, Record<FirMode, number | null>> = {
+  // Q 10 notches at 50/60 Hz ring for over a second: more than any linear-phase FIR here holds
+  'factory-hum-50': { naturalPhase: 16384, linearPhase: null },
+  'factory-hum-60': { naturalPhase: 16384, linearPhase: null },
+};
+
+const CASES: CheckCase[] = [
+  {
+    name: 'Broad tone shaping',
+    bands: [band(1, BandType.LOW_SHELF, 200, 3, 0.7), band(2, BandType.PEAK, 1000, -2, 1), band(3, BandType.HIGH_SHELF, 6000, 2, 0.7)],
+    minLength: { naturalPhase: 2048, linearPhase: 2048 },
+  },
+  {
+    name: 'Narrow 60 Hz peak',
+    bands: [band(1, BandType.PEAK, 60, 6, 4)],
+    minLength: { naturalPhase: 4096, linearPhase: 8192 },
+  },
+  {
+    name: 'Resonant shelves, 48 dB/oct cut',
+    bands: [band(1, BandType.LOW_SHELF, 100, 6, 4), band(2, BandType.HIGH_SHELF, 8000, -6, 4), band(3, BandType.LOW_CUT, 30, 0, Math.SQRT1_2, 48)],
+    minLength: { naturalPhase: 8192, linearPhase: 16384 },
+  },
+  ...FACTORY_PRESETS.map(preset => ({
+    name: preset.name,
+    bands: preset.bands,
+    minLength: FACTORY_MIN_LENGTHS[preset.id] ?? { naturalPhase: DEFAULT_LENGTH, linearPhase: DEFAULT_LENGTH },
+  })),
+];
+
+let failures = 0;
+let checks = 0;
+
+for (const { name, bands, minLength } of CASES) {
+  for (const mode of FIR_MODES) {
+    const required = minLength[mode];
+    const lengths = required === null ? FIR_LENGTHS.slice(-1) : FIR_LENGTHS.filter(length => length >= required);
+
+    const results = lengths.map(firLength => {
+      const settings = { mode, firLength };
+      const error = getFirMagnitudeError(designFir(bands, SAMPLE_RATE, settings), bands, SAMPLE_RATE, settings);
+      const failed = required !== null && error > FIR_MAX_ERROR;
+      if (required !== null) checks++;
+      if (failed) failures++;
+      return { firLength, error, failed };
+    });
+
+    const status = required === null ? 'info' : results.some(result => result.failed) ? 'FAIL' : 'ok';
+    const errors = results.map(({ firLength, error, failed }) => `${firLength}: ${error.toFixed(2)} dB${failed ? ' !' : ''}`);
+    console.log(`${status.padEnd(5)}${name.padEnd(34)}${mode.padEnd(14)}${errors.join('  ')}`);
+  }
+}
+
+console.log(`\n${checks - failures} of ${checks} FIRs within ±${FIR_MAX_ERROR} dB at ${SAMPLE_RATE / 1000} kHz`);
+if (failures > 0) process.exitCode = 1;
@@ -3,6 +3,16 @@ export enum BandType {
   PEAK = 'Peak',
   LOW_SHELF = 'Low-Shelf',
   HIGH_SHELF = 'High-Shelf',
+  LOW_CUT = 'Low-Cut',
+  HIGH_CUT = 'High-Cut',
+  NOTCH = 'Notch',
+  BAND_PASS = 'Band-Pass',
+  TILT_SHELF = 'Tilt-Shelf',
+}
+
+export enum DynamicMode {
+  ABOVE = 'Above', // Band gain drops when the band level rises above threshold (compression)
+  BELOW = 'Below', // Band gain drops when the band level falls below threshold (expansion)
 }
 
 export interface EQBand {
@@ -14,13 +24,71 @@ export interface EQBand {
   enabled: boolean;
   color: string; // For visualization
   isDynamic?: boolean;
-  dynamicRange?: number;
+  dynamicRange?: number; // Maximum gain reduction, dB
+  threshold?: number;    // dB
+  ratio?: number;
+  attack?: number;       // ms
+  release?: number;      // ms
+  dynamicMode?: DynamicMode;
   solo?: boolean;
+  slope?: number;    // dB/oct, Low-Cut / High-Cut only
+  locked?: boolean;  // Kept as it is by the auto-fit
 }
 
 export interface FrequencyPoint {
   frequency: number;
   gain: number;
+  phase?: number;      // degrees, -180..180; set on EQ responses, not on spectra
+  groupDelay?: number; // ms
+}
+
+export type SpectrumLayerVariant = 'area' | 'line' | 'peak' | 'reference' | 'residual';
+
+/** One analyzer trace (or other reference curve) on the response graph. Levels use the graph's gain axis. */
+export interface SpectrumLayer {
+  id: string;
+  label: string;
+  points: FrequencyPoint[];
+  color: string;
+  variant: SpectrumLayerVariant;
+}
+
+export type SpectrogramColorMap = 'magma' | 'viridis' | 'inferno' | 'turbo' | 'grayscale';
+
+export interface SpectrogramSettings {
+  enabled: boolean;
+  historyLength: number; // Seconds shown from top (newest) to bottom
+  colorMap: SpectrogramColorMap;
+}
+
+// zeroLatency: the biquads as designed. naturalPhase: an FIR with the analog prototypes' magnitude
+// and phase (no cramping near Nyquist). linearPhase: an FIR with the biquads' magnitude and no phase shift.
+export type ProcessingMode = 'zeroLatency' | 'naturalPhase' | 'linearPhase';
+
+export interface ProcessingSettings {
+  mode: ProcessingMode;
+  firLength: number; // Taps of the FIR modes; linear phase delays by half of it
+}
+
+export type AnalyzerWindow = 'hann' | 'blackman-harris' | 'flat-top';
+
+export interface AnalyzerSettings {
+  fftSize: number;          // Samples, power of two
+  window: AnalyzerWindow;
+  octaveSmoothing: number;  // N of 1/N-octave smoothing, 0 = off
+  averagingTime: number;    // Seconds of exponential power averaging, 0 = off
+}
+
+/**
+ * Normalised biquad coefficients (a0 = 1), transfer function
+ * H(z) = (b0 + b1 z^-1 + b2 z^-2) / (1 + a1 z^-1 + a2 z^-2).
+ */
+export interface BiquadCoefficients {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
 }
 
 export interface EQPreset {
@@ -28,4 +96,9 @@ export interface EQPreset {
   name: string;
   bands: EQBand[];
   masterGain: number;
+  category?: string;
+  tags?: string[];
+  favorite?: boolean;
+  createdAt?: number; // ms since epoch
+  updatedAt?: number; // ms since epoch
 }
@@ -0,0 +1,192 @@
+import { EQBand, BandType } from '../types';
+import { MAX_BANDS, MAX_Q, DEFAULT_CUT_Q, DEFAULT_SLOPE, MASTER_GAIN_RANGE, GAINLESS_BAND_TYPES } from '../constants';
+import { EQSnapshot } from './history';
+import { ValidationResult, validateBand } from './presetSchema';
+import { getButterworthSectionQs } from './biquad';
+
+/**
+ * Equalizer APO parametric text format, also written by AutoEQ, REW and others:
+ *
+ *   Preamp: -6 dB
+ *   Filter 1: ON PK Fc 1000 Hz Gain -3 dB Q 1.41
+ *
+ * Only the single-channel subset is understood; commands like Channel: or Include:
+ * are reported as unsupported instead of being guessed at.
+ */
+
+const APO_TYPES: Record<string, BandType> = {
+  PK: BandType.PEAK,
+  LS: BandType.LOW_SHELF,
+  LSC: BandType.LOW_SHELF,
+  HS: BandType.HIGH_SHELF,
+  HSC: BandType.HIGH_SHELF,
+  HP: BandType.LOW_CUT,
+  HPQ: BandType.LOW_CUT,
+  LP: BandType.HIGH_CUT,
+  LPQ: BandType.HIGH_CUT,
+  NO: BandType.NOTCH,
+  BP: BandType.BAND_PASS,
+};
+
+// APO's own defaults when a filter line has no Q
+const DEFAULT_APO_Q: Partial<Record<BandType, number>> = {
+  [BandType.PEAK]: 1,
+  [BandType.LOW_SHELF]: DEFAULT_CUT_Q,
+  [BandType.HIGH_SHELF]: DEFAULT_CUT_Q,
+  [BandType.LOW_CUT]: DEFAULT_CUT_Q,
+  [BandType.HIGH_CUT]: DEFAULT_CUT_Q,
+  [BandType.NOTCH]: MAX_Q,
+  [BandType.BAND_PASS]: 1,
+};
+
+// Gains may carry an explicit sign, as AutoEQ writes them ("Gain +3.5 dB")
+const PREAMP_PATTERN = /^Preamp\s*:\s*([+-]?\d+(?:\.\d+)?)\s*dB/i;
+const GAIN_PATTERN = /\bGain\s+([+-]?\d+(?:\.\d+)?)/i;
+const FILTER_PATTERN = /^Filter\s*\d*\s*:\s*(ON|OFF)\s+([A-Z]+)\b(.*)$/i;
+
+const readParam = (text: string, pattern: RegExp): number | undefined => {
+  const match = text.match(pattern);
+  return match ? parseFloat(match[1]) : undefined;
+};
+
+// Q of a filter given its bandwidth in octaves
+const bandwidthToQ = (octaves: number): number => Math.sqrt(Math.pow(2, octaves)) / (Math.pow(2, octaves) - 1);
+
+/**
+ * Parses Equalizer APO / AutoEQ text into bands and master gain.
+ * Lines that cannot be mapped are listed in `warnings` with their line number.
+ */
+export const parseApoText = (text: string): ValidationResult<EQSnapshot> => {
+  const warnings: string[] = [];
+  const bands: EQBand[] = [];
+  let preamp = 0;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const where = `Line ${index + 1}`;
+    if (!line || line.startsWith('#')) return;
+
+    const preampMatch = line.match(PREAMP_PATTERN);
+    if (preampMatch) {
+      // APO adds up repeated Preamp commands
+      preamp += parseFloat(preampMatch[1]);
+      return;
+    }
+
+    const filterMatch = line.match(FILTER_PATTERN);
+    if (!filterMatch) {
+      warnings.push(`${where}: "${line}" is not supported, ignored`);
+      return;
+    }
+
+    const [, state, apoType, params] = filterMatch;
+    const type = APO_TYPES[apoType.toUpperCase()];
+    if (!type) {
+      warnings.push(`${where}: filter type ${apoType} has no equivalent, ignored`);
+      return;
+    }
+
+    const frequency = readParam(params, /\bFc\s+(\d+(?:\.\d+)?)/i);
+    if (frequency === undefined) {
+      warnings.push(`${where}: filter has no Fc, ignored`);
+      return;
+    }
+    if (bands.length >= MAX_BANDS) {
+      warnings.push(`${where}: more than ${MAX_BANDS} filters, ignored`);
+      return;
+    }
+
+    const bandwidth = readParam(params, /\bBW\s+Oct\s+(\d+(?:\.\d+)?)/i);
+    const q = readParam(params, /\bQ\s+(\d+(?:\.\d+)?)/i) ?? (bandwidth ? bandwidthToQ(bandwidth) : DEFAULT_APO_Q[type]);
+    // Shelves may carry a slope right after the type, e.g. "LS 6dB Fc ..."
+    if (/^\s*\d+(?:\.\d+)?\s*dB/i.test(params)) {
+      warnings.push(`${where}: shelf slope is not supported, imported with Q ${q}`);
+    }
+
+    const gain = readParam(params, GAIN_PATTERN);
+    if (gain === undefined && !GAINLESS_BAND_TYPES.includes(type)) {
+      warnings.push(/\bGain\b/i.test(params)
+        ? `${where}: gain could not be read, imported at 0 dB`
+        : `${where}: filter has no Gain, imported at 0 dB`);
+    }
+
+    const raw = {
+      id: bands.length + 1,
+      type,
+      frequency,
+      gain: gain ?? 0,
+      q,
+      enabled: state.toUpperCase() === 'ON',
+      ...(type === BandType.LOW_CUT || type === BandType.HIGH_CUT ? { slope: DEFAULT_SLOPE } : {}),
+    };
+    const result = validateBand(raw, raw.id, where);
+    warnings.push(...result.warnings);
+    if (result.value) bands.push(result.value);
+  });
+
+  if (bands.length === 0) return { value: null, warnings: [...warnings, 'No filters found'] };
+
+  const masterGain = Math.max(MASTER_GAIN_RANGE.min, Math.min(MASTER_GAIN_RANGE.max, preamp));
+  if (masterGain !== preamp) warnings.push(`Preamp ${preamp} dB out of range, clamped to ${masterGain} dB`);
+
+  return { value: { bands, masterGain }, warnings };
+};
+
+const formatNumber = (value: number, decimals: number): string => String(Number(value.toFixed(decimals)));
+
+const formatFilter = (index: number, enabled: boolean, type: string, frequency: number, gain?: number, q?: number): string =>
+  `Filter ${index}: ${enabled ? 'ON' : 'OFF'} ${type} Fc ${formatNumber(frequency, 1)} Hz` +
+  (gain !== undefined ? ` Gain ${formatNumber(gain, 1)} dB` : '') +
+  (q !== undefined ? ` Q ${formatNumber(q, 3)}` : '');
+
+/**
+ * Writes bands and master gain as Equalizer APO text.
+ * Cuts steeper than 12 dB/oct become one HPQ/LPQ line per Butterworth section; settings
+ * APO cannot express (tilt shelves, first-order sections, dynamics) are listed in `warnings`.
+ */
+export const formatApoText = (bands: EQBand[], masterGain: number): { text: string; warnings: string[] } => {
+  const warnings: string[] = [];
+  const lines = [`Preamp: ${formatNumber(masterGain, 1)} dB`];
+  let index = 1;
+
+  for (const band of bands) {
+    const name = `Band ${band.id}`;
+    if (band.isDynamic) warnings.push(`${name}: dynamics are not part of the format, exported as static`);
+
+    switch (band.type) {
+      case BandType.PEAK:
+        lines.push(formatFilter(index++, band.enabled, 'PK', band.frequency, band.gain, band.q));
+        break;
+      case BandType.LOW_SHELF:
+        lines.push(formatFilter(index++, band.enabled, 'LSC', band.frequency, band.gain, band.q));
+        break;
+      case BandType.HIGH_SHELF:
+        lines.push(formatFilter(index++, band.enabled, 'HSC', band.frequency, band.gain, band.q));
+        break;
+      case BandType.NOTCH:
+        lines.push(formatFilter(index++, band.enabled, 'NO', band.frequency, undefined, band.q));
+        break;
+      case BandType.BAND_PASS:
+        lines.push(formatFilter(index++, band.enabled, 'BP', band.frequency, undefined, band.q));
+        break;
+      case BandType.LOW_CUT:
+      case BandType.HIGH_CUT: {
+        const apoType = band.type === BandType.LOW_CUT ? 'HPQ' : 'LPQ';
+        const order = Math.max(1, Math.round((band.slope ?? DEFAULT_SLOPE) / 6));
+        if (order % 2 === 1) {
+          warnings.push(`${name}: APO has no first-order section, exported ${order === 1 ? 'without this band' : `at ${(order - 1) * 6} dB/oct`}`);
+        }
+        // Same section layout as calculateBandCoefficients: Q scales the lowest-Q section
+        getButterworthSectionQs(order).forEach((sectionQ, section) => {
+          const q = section === 0 ? sectionQ * band.q / Math.SQRT1_2 : sectionQ;
+          lines.push(formatFilter(index++, band.enabled, apoType, band.frequency, undefined, q));
+        });
+        break;
+      }
+      default:
+        warnings.push(`${name}: ${band.type} has no equivalent, not exported`);
+    }
+  }
+
+  return { text: lines.join('\n') + '\n', warnings };
+};
@@ -0,0 +1,249 @@
+import { AnalyzerSettings, EQBand, FrequencyPoint, ProcessingSettings } from '../types';
+import { EQ_PROCESSOR_NAME, DEFAULT_PROCESSING_SETTINGS } from '../constants';
+import { SpectrumAnalyzer } from './spectrumAnalyzer';
+import { FirDesigner } from './firDesigner';
+import type { FirDesignResult } from './firDesign.worker';
+import type { EQProcessorMessage, EQProcessorEvent } from './eqProcessor.worklet';
+import eqProcessorUrl from './eqProcessor.worklet.ts?worker&url';
+
+// Time constant (seconds) used when ramping the master gain, to avoid zipper noise.
+const PARAM_SMOOTHING_TIME = 0.015;
+
+// Level matching: how fast the wet/dry difference follows the music, and the quietest
+// input (dBFS RMS) that still counts, so silence does not drag the estimate around.
+const LEVEL_MATCH_RATE = 0.02;
+const LEVEL_MATCH_FLOOR = -70;
+
+export type SpectrumSource = 'input' | 'output'; // Before or after the EQ
+
+const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
+const getRmsDb = (analyser: AnalyserNode, buffer: Float32Array<ArrayBuffer>): number => {
+  analyser.getFloatTimeDomainData(buffer);
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) sum += buffer[i] * buffer[i];
+  return 10 * Math.log10(Math.max(sum / buffer.length, 1e-12));
+};
+
+/**
+ * Real-time Web Audio EQ.
+ * Sources connect to `input`, run through the EQ worklet (a biquad cascade using the same
+ * coefficients as the response graph) and the master gain stage `output`, then a level-match
+ * stage and a monitor switch wired to the speakers. `analyser` listens to `output`, i.e. to the
+ * equalised signal, whether or not it is monitored, and `inputAnalyser` to the dry `input`;
+ * both feed the real-time analyzer.
+ *
+ * Bands are expected to be the *effective* bands (bypass and solo already resolved):
+ * a disabled band stays in the cascade and is cross-faded out, so toggling it never clicks.
+ * In the natural- and linear-phase modes the worklet runs an FIR designed from the bands in a
+ * worker (see FirDesigner).
+ */
+export class AudioEngine {
+  readonly context: AudioContext;
+  readonly input: GainNode;
+  readonly output: GainNode;
+  readonly analyser: AnalyserNode;
+  readonly inputAnalyser: AnalyserNode;
+  /**
+   * Resolves once the EQ processor is running. Rejects when it cannot be loaded (AudioWorklet is
+   * only available in secure contexts); nothing then reaches `output`.
+   */
+  readonly ready: Promise<void>;
+  /**
+   * Called with the magnitude error (dB, see getFirMagnitudeError) of every FIR the processor
+   * receives while setFirCheck is on.
+   */
+  onFirCheck: ((magnitudeError: number) => void) | null = null;
+
+  private processor: AudioWorkletNode | null = null;
+  private bands: EQBand[] | null = null; // Last sent, kept to redesign the FIR when the mode changes
+  private processing: ProcessingSettings = DEFAULT_PROCESSING_SETTINGS;
+  private firDesigner = new FirDesigner();
+  private firCheck = false;
+  private gainReductions = new Map<number, number>();
+
+  private inputMeter: AnalyserNode;
+  private outputMeter: AnalyserNode;
+  private levelMatch: GainNode;
+  private monitor: GainNode;
+  private levelDifference = 0; // dB, equalised minus dry, averaged
+  private meterBuffer: Float32Array<ArrayBuffer>;
+  private spectrumAnalyzers: Record<SpectrumSource, SpectrumAnalyzer>;
+
+  constructor(context: AudioContext = new AudioContext()) {
+    this.context = context;
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.levelMatch = context.createGain();
+    this.monitor = context.createGain();
+    this.output.connect(this.levelMatch);
+    this.levelMatch.connect(this.monitor);
+    this.monitor.connect(context.destination);
+
+    this.analyser = context.createAnalyser();
+    this.output.connect(this.analyser);
+    this.inputAnalyser = context.createAnalyser();
+    this.input.connect(this.inputAnalyser);
+    this.spectrumAnalyzers = {
+      input: new SpectrumAnalyzer(this.inputAnalyser),
+      output: new SpectrumAnalyzer(this.analyser),
+    };
+    this.inputMeter = context.createAnalyser();
+    this.outputMeter = context.createAnalyser();
+    this.inputMeter.fftSize = this.outputMeter.fftSize = 2048;
+    this.input.connect(this.inputMeter);
+    this.output.connect(this.outputMeter);
+    this.meterBuffer = new Float32Array(this.inputMeter.fftSize);
+    this.firDesigner.onResult = (result) => this.receiveFir(result);
+
+    const worklet = context.audioWorklet as AudioWorklet | undefined;
+    const loaded = worklet
+      ? worklet.addModule(eqProcessorUrl)
+      : Promise.reject(new Error('AudioWorklet is not available; the page must be served over HTTPS or from localhost'));
+    this.ready = loaded.then(() => {
+      // The engine may have been disposed while the module was loading
+      if (context.state === 'closed') return;
+
+      const processor = new AudioWorkletNode(context, EQ_PROCESSOR_NAME);
+      processor.port.onmessage = (event: MessageEvent<EQProcessorEvent>) => {
+        if (event.data.type === 'gainReduction') this.gainReductions = new Map(event.data.values);
+      };
+      this.input.connect(processor);
+      processor.connect(this.output);
+      this.processor = processor;
+
+      if (this.bands) this.post({ type: 'bands', bands: this.bands });
+      this.postFir();
+    });
+  }
+
+  /**
+   * Pushes the current band settings to the processor, which ramps towards them.
+   */
+  update(bands: EQBand[], masterGain: number): void {
+    this.bands = bands;
+    this.post({ type: 'bands', bands });
+    if (this.processing.mode !== 'zeroLatency') this.postFir();
+
+    this.output.gain.setTargetAtTime(dbToGain(masterGain), this.context.currentTime, PARAM_SMOOTHING_TIME);
+  }
+
+  /**
+   * Switches between the biquads and the natural- or linear-phase FIR (see ProcessingMode).
+   * The switch cross-fades, but the latency changes with it.
+   */
+  setProcessing(settings: ProcessingSettings): void {
+    this.processing = settings;
+    this.postFir();
+  }
+
+  /**
+   * Measures every FIR designed from now on, for onFirCheck (the current one is redesigned).
+   * The measurement takes about as long as the design, so only turn it on while it is shown.
+   */
+  setFirCheck(enabled: boolean): void {
+    if (enabled === this.firCheck) return;
+    this.firCheck = enabled;
+    if (enabled) this.postFir();
+  }
+
+  /**
+   * Latest gain reduction (dB, <= 0) the dynamic detector applied to a band.
+   * Reported by the processor a few dozen times per second, for display only.
+   */
+  getGainReduction(bandId: number): number {
+    return this.gainReductions.get(bandId) ?? 0;
+  }
+
+  /** FFT size, window, smoothing and averaging of the real-time analyzer. */
+  setAnalyzerSettings(settings: AnalyzerSettings): void {
+    this.spectrumAnalyzers.input.configure(settings);
+    this.spectrumAnalyzers.output.configure(settings);
+  }
+
+  /**
+   * Level by frequency (dBFS) of the equalised signal, or of the dry input before the EQ,
+   * sampled at `numPoints` log-spaced frequencies. Call once per display frame: the analyzer's
+   * averaging runs on these calls.
+   */
+  getSpectrum(minFreq: number, maxFreq: number, numPoints: number, source: SpectrumSource = 'output'): FrequencyPoint[] {
+    return this.spectrumAnalyzers[source].getSpectrum(minFreq, maxFreq, numPoints);
+  }
+
+  /**
+   * Level-matched bypass. Call regularly (e.g. every animation frame): while the EQ is active
+   * it tracks how much louder or quieter it makes the signal; while `bypassed` the dry signal
+   * is raised or lowered by that amount, so A/B compares tone rather than loudness.
+   * @returns The applied difference in dB (0 when not bypassed or not matching).
+   */
+  updateLevelMatch(bypassed: boolean, enabled: boolean): number {
+    if (!bypassed) {
+      const dry = getRmsDb(this.inputMeter, this.meterBuffer);
+      if (dry > LEVEL_MATCH_FLOOR) {
+        const wet = getRmsDb(this.outputMeter, this.meterBuffer);
+        this.levelDifference += (wet - dry - this.levelDifference) * LEVEL_MATCH_RATE;
+      }
+    }
+
+    const applied = bypassed && enabled ? this.levelDifference : 0;
+    this.levelMatch.gain.setTargetAtTime(dbToGain(applied), this.context.currentTime, PARAM_SMOOTHING_TIME);
+    return applied;
+  }
+
+  /**
+   * Mutes the speakers without stopping the processing, so a live input can be analysed
+   * (and drive the dynamic bands) without feeding back into the microphone. This mutes everything
+   * that reaches `input`, so a file that should stay audible needs the live input taken out
+   * of the chain instead (LiveInput.setSuspended).
+   */
+  setMonitoring(enabled: boolean): void {
+    this.monitor.gain.setTargetAtTime(enabled ? 1 : 0, this.context.currentTime, PARAM_SMOOTHING_TIME);
+  }
+
+  /**
+   * Browsers keep a new AudioContext suspended until a user gesture.
+   */
+  resume(): Promise<void> {
+    if (this.context.state === 'suspended') return this.context.resume();
+    return Promise.resolve();
+  }
+
+  dispose(): void {
+    this.firDesigner.dispose();
+    this.input.disconnect();
+    this.processor?.disconnect();
+    this.output.disconnect();
+    this.levelMatch.disconnect();
+    this.monitor.disconnect();
+    this.context.close().catch(() => {});
+  }
+
+  private post(message: EQProcessorMessage): void {
+    this.processor?.port.postMessage(message);
+  }
+
+  // Has the FIR of the current mode designed; receiveFir hands it to the worklet
+  private postFir(): void {
+    if (!this.processor) return;
+    if (this.processing.mode === 'zeroLatency') {
+      this.firDesigner.cancel();
+      this.post({ type: 'fir', filter: null });
+      return;
+    }
+    this.firDesigner.design({
+      bands: this.bands ?? [],
+      sampleRate: this.context.sampleRate,
+      settings: this.processing,
+      measure: this.firCheck,
+    });
+  }
+
+  private receiveFir({ settings, filter, magnitudeError }: FirDesignResult): void {
+    // Designed for a mode or length that has been left since; the current one is on its way
+    if (!this.processor || settings.mode !== this.processing.mode || settings.firLength !== this.processing.firLength) return;
+
+    const message: EQProcessorMessage = { type: 'fir', filter };
+    this.processor.port.postMessage(message, [filter.re.buffer, filter.im.buffer]);
+    if (this.firCheck && magnitudeError !== null) this.onFirCheck?.(magnitudeError);
+  }
+}
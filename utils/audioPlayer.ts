@@ -0,0 +1,145 @@
+/**
+ * Plays a decoded audio file into a node (normally AudioEngine.input), so EQ changes can be
+ * auditioned on real material. Supports pause/seek and looping a region.
+ */
+
+export interface LoopRegion {
+  start: number; // seconds
+  end: number;
+}
+
+export interface WaveformPeak {
+  min: number;
+  max: number;
+}
+
+// Shortest loop that is accepted; anything shorter is treated as a click
+export const MIN_LOOP_LENGTH = 0.05; // seconds
+
+/**
+ * Minimum and maximum sample of every bucket, over all channels, for a waveform overview.
+ */
+export const computeWaveformPeaks = (buffer: AudioBuffer, numBuckets: number): WaveformPeak[] => {
+  const peaks: WaveformPeak[] = Array.from({ length: numBuckets }, () => ({ min: 0, max: 0 }));
+  const bucketSize = buffer.length / numBuckets;
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let bucket = 0; bucket < numBuckets; bucket++) {
+      const end = Math.min(data.length, Math.floor((bucket + 1) * bucketSize));
+      const peak = peaks[bucket];
+      for (let i = Math.floor(bucket * bucketSize); i < end; i++) {
+        if (data[i] < peak.min) peak.min = data[i];
+        if (data[i] > peak.max) peak.max = data[i];
+      }
+    }
+  }
+  return peaks;
+};
+
+export class AudioFilePlayer {
+  private readonly context: AudioContext;
+  private readonly destination: AudioNode;
+  private buffer: AudioBuffer | null = null;
+  private source: AudioBufferSourceNode | null = null;
+  private startedAt = 0; // context time at which `offset` was playing
+  private offset = 0;    // position (s) when paused, or when playback last (re)started
+  private loop: LoopRegion | null = null;
+
+  /** Called when playback reaches the end of the file (not when paused). */
+  onEnded: (() => void) | null = null;
+
+  constructor(context: AudioContext, destination: AudioNode) {
+    this.context = context;
+    this.destination = destination;
+  }
+
+  get duration(): number {
+    return this.buffer?.duration ?? 0;
+  }
+
+  get isPlaying(): boolean {
+    return this.source !== null;
+  }
+
+  get audioBuffer(): AudioBuffer | null {
+    return this.buffer;
+  }
+
+  async load(file: File): Promise<AudioBuffer> {
+    const buffer = await this.context.decodeAudioData(await file.arrayBuffer());
+    this.stopSource();
+    this.buffer = buffer;
+    this.offset = 0;
+    this.loop = null;
+    return buffer;
+  }
+
+  play(): void {
+    if (!this.buffer || this.source) return;
+
+    if (this.loop && (this.offset < this.loop.start || this.offset >= this.loop.end)) this.offset = this.loop.start;
+    if (this.offset >= this.buffer.duration) this.offset = 0;
+
+    const source = this.context.createBufferSource();
+    source.buffer = this.buffer;
+    if (this.loop) {
+      source.loop = true;
+      source.loopStart = this.loop.start;
+      source.loopEnd = this.loop.end;
+    }
+    source.connect(this.destination);
+    source.onended = () => {
+      // Also fires after stop(); only a source that ran out by itself means the end of the file
+      if (this.source !== source) return;
+      this.source = null;
+      this.offset = 0;
+      this.onEnded?.();
+    };
+    source.start(0, this.offset);
+    this.source = source;
+    this.startedAt = this.context.currentTime;
+  }
+
+  pause(): void {
+    if (!this.source) return;
+    this.offset = this.getCurrentTime();
+    this.stopSource();
+  }
+
+  seek(time: number): void {
+    const wasPlaying = this.isPlaying;
+    this.stopSource();
+    this.offset = Math.max(0, Math.min(this.duration, time));
+    if (wasPlaying) this.play();
+  }
+
+  /** Loops playback over `region`, or plays through when null. Takes effect immediately. */
+  setLoop(region: LoopRegion | null): void {
+    this.loop = region && region.end - region.start >= MIN_LOOP_LENGTH ? region : null;
+    if (this.isPlaying) this.seek(this.getCurrentTime());
+  }
+
+  getCurrentTime(): number {
+    if (!this.source) return this.offset;
+
+    const time = this.offset + (this.context.currentTime - this.startedAt);
+    if (this.loop && time >= this.loop.end) {
+      return this.loop.start + (time - this.loop.start) % (this.loop.end - this.loop.start);
+    }
+    return Math.min(time, this.duration);
+  }
+
+  dispose(): void {
+    this.stopSource();
+    this.buffer = null;
+  }
+
+  private stopSource(): void {
+    if (!this.source) return;
+    const source = this.source;
+    this.source = null;
+    source.stop();
+    source.disconnect();
+  }
+}
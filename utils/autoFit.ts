@@ -0,0 +1,43 @@
+import { FitResult } from './curveFit';
+import type { AutoFitEvent, AutoFitRequest } from './autoFit.worker';
+import AutoFitWorker from './autoFit.worker.ts?worker';
+
+export interface AutoFitJob {
+  result: Promise<FitResult>;
+  /** Stops the worker; `result` then rejects with an AbortError. */
+  cancel: () => void;
+}
+
+/**
+ * Runs the auto-fit in a dedicated worker so the UI stays responsive while it searches.
+ * Every job gets its own worker, terminated when the job ends.
+ */
+export const startAutoFit = (
+  request: AutoFitRequest,
+  onProgress?: (progress: number, rmsError: number) => void,
+): AutoFitJob => {
+  const worker = new AutoFitWorker();
+  let cancel = () => {};
+
+  const result = new Promise<FitResult>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<AutoFitEvent>) => {
+      if (event.data.type === 'progress') {
+        onProgress?.(event.data.progress, event.data.rmsError);
+      } else {
+        worker.terminate();
+        resolve({ bands: event.data.bands, rmsError: event.data.rmsError });
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Auto-fit failed'));
+    };
+    cancel = () => {
+      worker.terminate();
+      reject(new DOMException('Auto-fit cancelled', 'AbortError'));
+    };
+  });
+
+  worker.postMessage(request);
+  return { result, cancel };
+};
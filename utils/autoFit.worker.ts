@@ -0,0 +1,27 @@
+/**
+ * Web Worker running the band auto-fit (curveFit.autoFitBands) off the main thread.
+ * One request per message; progress events are posted while it runs, then the result.
+ */
+import { EQBand, FrequencyPoint } from '../types';
+import { autoFitBands } from './curveFit';
+
+export interface AutoFitRequest {
+  bands: EQBand[];
+  target: FrequencyPoint[];
+  numBands: number;
+  sampleRate: number;
+}
+
+export type AutoFitEvent =
+  | { type: 'progress'; progress: number; rmsError: number }
+  | { type: 'result'; bands: EQBand[]; rmsError: number };
+
+const post = (event: AutoFitEvent) => (self as unknown as Worker).postMessage(event);
+
+self.onmessage = (event: MessageEvent<AutoFitRequest>) => {
+  const { bands, target, numBands, sampleRate } = event.data;
+  const result = autoFitBands(bands, target, { numBands, sampleRate }, (progress, rmsError) => {
+    post({ type: 'progress', progress, rmsError });
+  });
+  post({ type: 'result', bands: result.bands, rmsError: result.rmsError });
+};
@@ -0,0 +1,37 @@
+import { EQBand, BandType } from '../types';
+import { BAND_COLORS, MAX_BANDS, DEFAULT_Q, DEFAULT_DYNAMICS, MIN_FREQ, MAX_FREQ, MIN_GAIN, MAX_GAIN } from '../constants';
+
+/**
+ * Lowest positive id not used by any band, so band numbers stay compact after deletions.
+ */
+export const getNextBandId = (bands: EQBand[]): number => {
+  const used = new Set(bands.map(b => b.id));
+  let id = 1;
+  while (used.has(id)) id++;
+  return id;
+};
+
+export const getBandColor = (id: number): string => BAND_COLORS[(id - 1) % BAND_COLORS.length];
+
+/**
+ * Builds a new peak band at the given position.
+ * @returns The new band, or null if the maximum number of bands is reached.
+ */
+export const createBand = (bands: EQBand[], frequency: number, gain: number): EQBand | null => {
+  if (bands.length >= MAX_BANDS) return null;
+
+  const id = getNextBandId(bands);
+  return {
+    id,
+    type: BandType.PEAK,
+    frequency: Math.max(MIN_FREQ, Math.min(MAX_FREQ, frequency)),
+    gain: Math.max(MIN_GAIN, Math.min(MAX_GAIN, gain)),
+    q: DEFAULT_Q,
+    enabled: true,
+    color: getBandColor(id),
+    isDynamic: false,
+    dynamicRange: 6,
+    ...DEFAULT_DYNAMICS,
+    solo: false,
+  };
+};
@@ -0,0 +1,264 @@
+import { EQBand, BandType, BiquadCoefficients } from '../types';
+import { MIN_Q, DEFAULT_SLOPE } from '../constants';
+
+/**
+ * RBJ Audio-EQ-Cookbook biquad design.
+ * The formulas are the same ones JUCE uses in dsp::IIR::Coefficients (makePeakFilter,
+ * makeLowShelf, makeHighShelf, makeHighPass, makeNotch, ...), so the web graph, the web
+ * engine and the exported plugin all describe the same filter. Coefficients are
+ * normalised so that a0 = 1.
+ */
+
+const UNITY: BiquadCoefficients = { b0: 1, b1: 0, b2: 0, a1: 0, a2: 0 };
+
+const normalise = (b0: number, b1: number, b2: number, a0: number, a1: number, a2: number): BiquadCoefficients => ({
+  b0: b0 / a0,
+  b1: b1 / a0,
+  b2: b2 / a0,
+  a1: a1 / a0,
+  a2: a2 / a0,
+});
+
+// Keep the centre frequency strictly below Nyquist, otherwise the design degenerates.
+const toOmega = (frequency: number, sampleRate: number): number =>
+  2 * Math.PI * Math.min(frequency, sampleRate * 0.499) / sampleRate;
+
+export const makePeakFilter = (sampleRate: number, frequency: number, q: number, gainDb: number): BiquadCoefficients => {
+  const A = Math.pow(10, gainDb / 40);
+  const omega = toOmega(frequency, sampleRate);
+  const alpha = Math.sin(omega) / (2 * q);
+  const c2 = -2 * Math.cos(omega);
+
+  return normalise(1 + alpha * A, c2, 1 - alpha * A, 1 + alpha / A, c2, 1 - alpha / A);
+};
+
+export const makeLowShelf = (sampleRate: number, frequency: number, q: number, gainDb: number): BiquadCoefficients => {
+  const A = Math.pow(10, gainDb / 40);
+  const aminus1 = A - 1;
+  const aplus1 = A + 1;
+  const omega = toOmega(frequency, sampleRate);
+  const coso = Math.cos(omega);
+  const beta = Math.sin(omega) * Math.sqrt(A) / q;
+  const aminus1TimesCoso = aminus1 * coso;
+
+  return normalise(
+    A * (aplus1 - aminus1TimesCoso + beta),
+    A * 2 * (aminus1 - aplus1 * coso),
+    A * (aplus1 - aminus1TimesCoso - beta),
+    aplus1 + aminus1TimesCoso + beta,
+    -2 * (aminus1 + aplus1 * coso),
+    aplus1 + aminus1TimesCoso - beta,
+  );
+};
+
+export const makeHighShelf = (sampleRate: number, frequency: number, q: number, gainDb: number): BiquadCoefficients => {
+  const A = Math.pow(10, gainDb / 40);
+  const aminus1 = A - 1;
+  const aplus1 = A + 1;
+  const omega = toOmega(frequency, sampleRate);
+  const coso = Math.cos(omega);
+  const beta = Math.sin(omega) * Math.sqrt(A) / q;
+  const aminus1TimesCoso = aminus1 * coso;
+
+  return normalise(
+    A * (aplus1 + aminus1TimesCoso + beta),
+    A * -2 * (aminus1 + aplus1 * coso),
+    A * (aplus1 + aminus1TimesCoso - beta),
+    aplus1 - aminus1TimesCoso + beta,
+    2 * (aminus1 - aplus1 * coso),
+    aplus1 - aminus1TimesCoso - beta,
+  );
+};
+
+/**
+ * Tilt around `frequency`: -gain/2 below, +gain/2 above, 0 dB at the centre.
+ * A high shelf of the full gain with its passband pulled down by half the gain.
+ */
+export const makeTiltShelf = (sampleRate: number, frequency: number, q: number, gainDb: number): BiquadCoefficients => {
+  const shelf = makeHighShelf(sampleRate, frequency, q, gainDb);
+  const scale = Math.pow(10, -gainDb / 40);
+  return { ...shelf, b0: shelf.b0 * scale, b1: shelf.b1 * scale, b2: shelf.b2 * scale };
+};
+
+export const makeHighPass = (sampleRate: number, frequency: number, q: number): BiquadCoefficients => {
+  const omega = toOmega(frequency, sampleRate);
+  const cos = Math.cos(omega);
+  const alpha = Math.sin(omega) / (2 * q);
+
+  return normalise((1 + cos) / 2, -(1 + cos), (1 + cos) / 2, 1 + alpha, -2 * cos, 1 - alpha);
+};
+
+export const makeLowPass = (sampleRate: number, frequency: number, q: number): BiquadCoefficients => {
+  const omega = toOmega(frequency, sampleRate);
+  const cos = Math.cos(omega);
+  const alpha = Math.sin(omega) / (2 * q);
+
+  return normalise((1 - cos) / 2, 1 - cos, (1 - cos) / 2, 1 + alpha, -2 * cos, 1 - alpha);
+};
+
+export const makeFirstOrderHighPass = (sampleRate: number, frequency: number): BiquadCoefficients => {
+  const k = Math.tan(toOmega(frequency, sampleRate) / 2);
+  return normalise(1, -1, 0, 1 + k, k - 1, 0);
+};
+
+export const makeFirstOrderLowPass = (sampleRate: number, frequency: number): BiquadCoefficients => {
+  const k = Math.tan(toOmega(frequency, sampleRate) / 2);
+  return normalise(k, k, 0, 1 + k, k - 1, 0);
+};
+
+export const makeNotch = (sampleRate: number, frequency: number, q: number): BiquadCoefficients => {
+  const omega = toOmega(frequency, sampleRate);
+  const cos = Math.cos(omega);
+  const alpha = Math.sin(omega) / (2 * q);
+
+  return normalise(1, -2 * cos, 1, 1 + alpha, -2 * cos, 1 - alpha);
+};
+
+// Constant 0 dB peak gain
+export const makeBandPass = (sampleRate: number, frequency: number, q: number): BiquadCoefficients => {
+  const omega = toOmega(frequency, sampleRate);
+  const cos = Math.cos(omega);
+  const alpha = Math.sin(omega) / (2 * q);
+
+  return normalise(alpha, 0, -alpha, 1 + alpha, -2 * cos, 1 - alpha);
+};
+
+/**
+ * Q of each second-order section of an Nth-order Butterworth filter.
+ * Odd orders additionally need one first-order section.
+ */
+export const getButterworthSectionQs = (order: number): number[] => {
+  const qs: number[] = [];
+  const numSections = Math.floor(order / 2);
+
+  for (let k = 1; k <= numSections; k++) {
+    const angle = order % 2 === 0 ? (2 * k - 1) * Math.PI / (2 * order) : k * Math.PI / order;
+    qs.push(1 / (2 * Math.cos(angle)));
+  }
+  return qs;
+};
+
+/**
+ * High- or low-pass with a slope of 6..48 dB/oct, built as a Butterworth cascade.
+ * The band's Q acts as resonance: it scales the lowest-Q section, so at Q = 0.707 the
+ * result is maximally flat, and a 12 dB/oct cut uses Q directly.
+ */
+const makeCut = (isHighPass: boolean, sampleRate: number, frequency: number, q: number, slope: number): BiquadCoefficients[] => {
+  const order = Math.max(1, Math.round(slope / 6));
+  const sections: BiquadCoefficients[] = [];
+
+  if (order % 2 === 1) {
+    sections.push(isHighPass ? makeFirstOrderHighPass(sampleRate, frequency) : makeFirstOrderLowPass(sampleRate, frequency));
+  }
+
+  getButterworthSectionQs(order).forEach((sectionQ, index) => {
+    const resonantQ = index === 0 ? sectionQ * q / Math.SQRT1_2 : sectionQ;
+    sections.push(isHighPass ? makeHighPass(sampleRate, frequency, resonantQ) : makeLowPass(sampleRate, frequency, resonantQ));
+  });
+
+  return sections;
+};
+
+/**
+ * Designs the biquad section(s) that implement a band at the given sample rate.
+ * The `enabled` flag is ignored here; callers decide whether a band takes part.
+ */
+export const calculateBandCoefficients = (band: EQBand, sampleRate: number): BiquadCoefficients[] => {
+  const q = Math.max(MIN_Q, band.q);
+
+  switch (band.type) {
+    case BandType.PEAK:
+      return [band.gain === 0 ? UNITY : makePeakFilter(sampleRate, band.frequency, q, band.gain)];
+    case BandType.LOW_SHELF:
+      return [band.gain === 0 ? UNITY : makeLowShelf(sampleRate, band.frequency, q, band.gain)];
+    case BandType.HIGH_SHELF:
+      return [band.gain === 0 ? UNITY : makeHighShelf(sampleRate, band.frequency, q, band.gain)];
+    case BandType.TILT_SHELF:
+      return [band.gain === 0 ? UNITY : makeTiltShelf(sampleRate, band.frequency, q, band.gain)];
+    case BandType.LOW_CUT:
+      return makeCut(true, sampleRate, band.frequency, q, band.slope ?? DEFAULT_SLOPE);
+    case BandType.HIGH_CUT:
+      return makeCut(false, sampleRate, band.frequency, q, band.slope ?? DEFAULT_SLOPE);
+    case BandType.NOTCH:
+      return [makeNotch(sampleRate, band.frequency, q)];
+    case BandType.BAND_PASS:
+      return [makeBandPass(sampleRate, band.frequency, q)];
+  }
+};
+
+/**
+ * Linear magnitude of a biquad at `frequency`, evaluated on the unit circle (z = e^jw).
+ */
+export const getMagnitudeForFrequency = (coeffs: BiquadCoefficients, frequency: number, sampleRate: number): number => {
+  const w = 2 * Math.PI * frequency / sampleRate;
+  const cos1 = Math.cos(w);
+  const sin1 = Math.sin(w);
+  const cos2 = Math.cos(2 * w);
+  const sin2 = Math.sin(2 * w);
+
+  const numRe = coeffs.b0 + coeffs.b1 * cos1 + coeffs.b2 * cos2;
+  const numIm = -(coeffs.b1 * sin1 + coeffs.b2 * sin2);
+  const denRe = 1 + coeffs.a1 * cos1 + coeffs.a2 * cos2;
+  const denIm = -(coeffs.a1 * sin1 + coeffs.a2 * sin2);
+
+  return Math.sqrt((numRe * numRe + numIm * numIm) / (denRe * denRe + denIm * denIm));
+};
+
+/**
+ * Magnitude in dB of a cascade of sections at `frequency`.
+ */
+export const getCascadeGainDb = (sections: BiquadCoefficients[], frequency: number, sampleRate: number): number => {
+  let magnitude = 1;
+  for (const section of sections) {
+    magnitude *= getMagnitudeForFrequency(section, frequency, sampleRate);
+  }
+  return 20 * Math.log10(Math.max(magnitude, 1e-12));
+};
+
+export interface CascadeResponse {
+  gain: number;       // dB
+  phase: number;      // degrees, wrapped to -180..180
+  groupDelay: number; // ms
+}
+
+/**
+ * Magnitude, phase and group delay of a cascade of sections at `frequency`.
+ * The group delay is the analytic one, -d(phase)/dw: for each polynomial P(z) = sum p_k z^-k
+ * it is Re(sum k p_k z^-k / P(z)) samples, numerator minus denominator.
+ */
+export const getCascadeResponse = (sections: BiquadCoefficients[], frequency: number, sampleRate: number): CascadeResponse => {
+  const w = 2 * Math.PI * frequency / sampleRate;
+  const cos1 = Math.cos(w);
+  const sin1 = Math.sin(w);
+  const cos2 = Math.cos(2 * w);
+  const sin2 = Math.sin(2 * w);
+
+  let magnitude = 1;
+  let phase = 0;  // radians
+  let delay = 0;  // samples
+  for (const { b0, b1, b2, a1, a2 } of sections) {
+    const numRe = b0 + b1 * cos1 + b2 * cos2;
+    const numIm = -(b1 * sin1 + b2 * sin2);
+    const denRe = 1 + a1 * cos1 + a2 * cos2;
+    const denIm = -(a1 * sin1 + a2 * sin2);
+    const numPower = Math.max(numRe * numRe + numIm * numIm, 1e-24);
+    const denPower = denRe * denRe + denIm * denIm;
+
+    // sum k p_k z^-k for numerator and denominator
+    const numDerivRe = b1 * cos1 + 2 * b2 * cos2;
+    const numDerivIm = -(b1 * sin1 + 2 * b2 * sin2);
+    const denDerivRe = a1 * cos1 + 2 * a2 * cos2;
+    const denDerivIm = -(a1 * sin1 + 2 * a2 * sin2);
+
+    magnitude *= Math.sqrt(numPower / denPower);
+    phase += Math.atan2(numIm, numRe) - Math.atan2(denIm, denRe);
+    delay += (numDerivRe * numRe + numDerivIm * numIm) / numPower - (denDerivRe * denRe + denDerivIm * denIm) / denPower;
+  }
+
+  const degrees = (phase * 180) / Math.PI;
+  return {
+    gain: 20 * Math.log10(Math.max(magnitude, 1e-12)),
+    phase: degrees - 360 * Math.round(degrees / 360),
+    groupDelay: (delay / sampleRate) * 1000,
+  };
+};
@@ -0,0 +1,150 @@
+import { EQBand, BiquadCoefficients } from '../types';
+import { calculateBandCoefficients } from './biquad';
+
+/**
+ * Normalised biquad coefficients for DSP that takes raw sections instead of EQ settings:
+ * CamillaDSP, miniDSP (advanced biquad programming) and anything that reads CSV.
+ * The sections are the same ones calculateOverallFrequencyResponse draws.
+ */
+
+export type CoefficientFormat = 'camilladsp' | 'minidsp' | 'csv';
+
+export const COEFFICIENT_FORMATS: { id: CoefficientFormat; label: string; extension: string }[] = [
+  { id: 'camilladsp', label: 'CamillaDSP (YAML)', extension: 'yml' },
+  { id: 'minidsp', label: 'miniDSP biquads', extension: 'txt' },
+  { id: 'csv', label: 'CSV', extension: 'csv' },
+];
+
+export interface CoefficientSection {
+  name: string;   // e.g. "band3_2" for the second section of band 3, "gain" for the master gain
+  label: string;  // Human readable, e.g. "Band 3 Low-Cut 250 Hz (2/2)"
+  coefficients: BiquadCoefficients;
+}
+
+// Flat section that only scales the signal
+const gainSection = (gainDb: number): BiquadCoefficients => ({ b0: Math.pow(10, gainDb / 20), b1: 0, b2: 0, a1: 0, a2: 0 });
+
+// Plain decimals (no exponent), which every target parses
+const formatCoefficient = (value: number): string => {
+  const text = value.toFixed(16).replace(/\.?0+$/, '');
+  return text === '-0' ? '0' : text;
+};
+
+const formatNumber = (value: number, digits: number): string => String(Number(value.toFixed(digits)));
+
+/**
+ * Sections of all enabled bands at `sampleRate`, preceded by a gain section when `masterGain`
+ * is not 0 dB, so the export reproduces the output level as well as the curve.
+ * Dynamic bands are exported at their static settings; they are listed in `warnings`.
+ */
+export const calculateExportSections = (
+  bands: EQBand[],
+  masterGain: number,
+  sampleRate: number,
+): { sections: CoefficientSection[]; warnings: string[] } => {
+  const warnings: string[] = [];
+  const sections: CoefficientSection[] = [];
+
+  if (masterGain !== 0) {
+    sections.push({ name: 'gain', label: `Output gain ${formatNumber(masterGain, 2)} dB`, coefficients: gainSection(masterGain) });
+  }
+
+  for (const band of bands) {
+    if (!band.enabled) continue;
+    if (band.isDynamic) warnings.push(`Band ${band.id}: dynamics cannot be expressed as fixed coefficients, exported as static`);
+
+    const bandSections = calculateBandCoefficients(band, sampleRate);
+    bandSections.forEach((coefficients, index) => {
+      const part = bandSections.length > 1 ? ` (${index + 1}/${bandSections.length})` : '';
+      sections.push({
+        name: bandSections.length > 1 ? `band${band.id}_${index + 1}` : `band${band.id}`,
+        label: `Band ${band.id} ${band.type} ${formatNumber(band.frequency, 1)} Hz${part}`,
+        coefficients,
+      });
+    });
+  }
+
+  if (sections.length === 0) warnings.push('No enabled bands, the export is a pass-through');
+  return { sections, warnings };
+};
+
+/**
+ * CamillaDSP `filters` and `pipeline` for a stereo chain, to merge into a config whose
+ * `devices.samplerate` matches.
+ */
+const formatCamillaDsp = (sections: CoefficientSection[], sampleRate: number): string => {
+  const lines = [
+    `# VEVI EQ Pro - biquad coefficients for ${sampleRate} Hz`,
+    '# Merge into your CamillaDSP config; devices.samplerate must match.',
+    'filters:',
+  ];
+
+  for (const { name, label, coefficients: c } of sections) {
+    lines.push(`  ${name}:`, `    description: "${label}"`);
+    if (name === 'gain') {
+      // Native gain filter instead of a flat biquad
+      lines.push('    type: Gain', '    parameters:', `      gain: ${formatNumber(20 * Math.log10(c.b0), 4)}`);
+      continue;
+    }
+    lines.push(
+      '    type: Biquad',
+      '    parameters:',
+      '      type: Free',
+      `      b0: ${formatCoefficient(c.b0)}`,
+      `      b1: ${formatCoefficient(c.b1)}`,
+      `      b2: ${formatCoefficient(c.b2)}`,
+      `      a1: ${formatCoefficient(c.a1)}`,
+      `      a2: ${formatCoefficient(c.a2)}`,
+    );
+  }
+  if (sections.length === 0) lines[lines.length - 1] = 'filters: {}';
+
+  lines.push('pipeline:');
+  for (const channel of [0, 1]) {
+    lines.push('  - type: Filter', `    channel: ${channel}`, '    names:');
+    sections.forEach(section => lines.push(`      - ${section.name}`));
+    if (sections.length === 0) lines[lines.length - 1] = '    names: []';
+  }
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * miniDSP "advanced biquad programming" text. miniDSP expects the feedback coefficients
+ * with the opposite sign, so a1 and a2 are negated.
+ */
+const formatMiniDsp = (sections: CoefficientSection[]): string =>
+  sections.map(({ coefficients: c }, index) => [
+    `biquad${index + 1},`,
+    `b0=${formatCoefficient(c.b0)},`,
+    `b1=${formatCoefficient(c.b1)},`,
+    `b2=${formatCoefficient(c.b2)},`,
+    `a1=${formatCoefficient(-c.a1)},`,
+    `a2=${formatCoefficient(-c.a2)}${index === sections.length - 1 ? '' : ','}`,
+  ].join('\n')).join('\n') + '\n';
+
+const formatCsv = (sections: CoefficientSection[], sampleRate: number): string => {
+  const rows = sections.map(({ name, label, coefficients: c }) =>
+    [name, `"${label}"`, sampleRate, ...[c.b0, c.b1, c.b2, c.a1, c.a2].map(formatCoefficient)].join(','));
+  return ['name,description,sample_rate,b0,b1,b2,a1,a2', ...rows].join('\n') + '\n';
+};
+
+/**
+ * Writes the enabled bands and master gain as normalised coefficients (a0 = 1) for one sample rate.
+ */
+export const formatCoefficients = (
+  format: CoefficientFormat,
+  bands: EQBand[],
+  masterGain: number,
+  sampleRate: number,
+): { text: string; warnings: string[] } => {
+  const { sections, warnings } = calculateExportSections(bands, masterGain, sampleRate);
+
+  switch (format) {
+    case 'camilladsp':
+      return { text: formatCamillaDsp(sections, sampleRate), warnings };
+    case 'minidsp':
+      return { text: formatMiniDsp(sections), warnings };
+    case 'csv':
+      return { text: formatCsv(sections, sampleRate), warnings };
+  }
+};
@@ -0,0 +1,27 @@
+import * as d3 from 'd3';
+import { SpectrogramColorMap } from '../types';
+
+const INTERPOLATORS: Record<SpectrogramColorMap, (t: number) => string> = {
+  magma: d3.interpolateMagma,
+  viridis: d3.interpolateViridis,
+  inferno: d3.interpolateInferno,
+  turbo: d3.interpolateTurbo,
+  grayscale: (t: number) => d3.interpolateGreys(1 - t), // Black for silence
+};
+
+export const COLOR_MAP_SIZE = 256;
+
+/**
+ * Colour map as a lookup table of COLOR_MAP_SIZE RGB triplets, from quiet (index 0) to loud,
+ * so a spectrogram row can be coloured without parsing CSS colours per pixel.
+ */
+export const createColorMap = (name: SpectrogramColorMap): Uint8ClampedArray => {
+  const table = new Uint8ClampedArray(COLOR_MAP_SIZE * 3);
+  for (let i = 0; i < COLOR_MAP_SIZE; i++) {
+    const colour = d3.rgb(INTERPOLATORS[name](i / (COLOR_MAP_SIZE - 1)));
+    table[i * 3] = colour.r;
+    table[i * 3 + 1] = colour.g;
+    table[i * 3 + 2] = colour.b;
+  }
+  return table;
+};
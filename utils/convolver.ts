@@ -0,0 +1,189 @@
+import { fft } from './fft';
+
+interface ChannelState {
+  history: Float64Array;  // Last two blocks of input
+  spectraRe: Float64Array; // Input spectra of the last `partitions` blocks, (blockSize + 1) bins each
+  spectraIm: Float64Array;
+  head: number;            // Slot of the newest block
+}
+
+/** An FIR cut into blocks of `blockSize` taps, each transformed to (blockSize + 1) bins. */
+export interface PartitionedFilter {
+  blockSize: number;
+  partitions: number;
+  re: Float64Array;
+  im: Float64Array;
+}
+
+/**
+ * Transforms an FIR for the Convolver. Kept apart from it so the transforms can run before the
+ * filter reaches the audio thread (see firDesign.worker).
+ */
+export const partitionFilter = (taps: Float32Array, blockSize: number): PartitionedFilter => {
+  const fftSize = blockSize * 2;
+  const bins = blockSize + 1;
+  const partitions = Math.max(1, Math.ceil(taps.length / blockSize));
+  const filterRe = new Float64Array(partitions * bins);
+  const filterIm = new Float64Array(partitions * bins);
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+
+  for (let p = 0; p < partitions; p++) {
+    re.fill(0);
+    im.fill(0);
+    re.set(taps.subarray(p * blockSize, (p + 1) * blockSize));
+    fft(re, im);
+    filterRe.set(re.subarray(0, bins), p * bins);
+    filterIm.set(im.subarray(0, bins), p * bins);
+  }
+
+  return { blockSize, partitions, re: filterRe, im: filterIm };
+};
+
+/**
+ * Uniformly partitioned overlap-save convolution (no latency beyond the filter's own).
+ * Each block of input is transformed once and multiplied with every partition's spectrum
+ * (see partitionFilter) in a frequency-domain delay line.
+ *
+ * setFilter can be called while running: the input history is kept, and the next block
+ * cross-fades from the old filter to the new one.
+ */
+export class Convolver {
+  private readonly blockSize: number;
+  private readonly fftSize: number;
+  private partitions = 0;
+  private filterRe = new Float64Array(0);
+  private filterIm = new Float64Array(0);
+  private previous: { re: Float64Array; im: Float64Array } | null = null; // Filter to fade out of
+  private channels: ChannelState[] = [];
+  // Scratch buffers
+  private readonly re: Float64Array;
+  private readonly im: Float64Array;
+  private readonly accRe: Float64Array;
+  private readonly accIm: Float64Array;
+  private readonly faded: Float64Array;
+
+  constructor(blockSize: number) {
+    this.blockSize = blockSize;
+    this.fftSize = blockSize * 2;
+    this.re = new Float64Array(this.fftSize);
+    this.im = new Float64Array(this.fftSize);
+    this.accRe = new Float64Array(blockSize + 1);
+    this.accIm = new Float64Array(blockSize + 1);
+    this.faded = new Float64Array(blockSize);
+  }
+
+  /** `filter` must be partitioned with this convolver's block size. */
+  setFilter(filter: PartitionedFilter): void {
+    const { partitions } = filter;
+    if (partitions !== this.partitions) this.resizeChannels(partitions);
+    this.previous = this.partitions > 0 && partitions === this.partitions ? { re: this.filterRe, im: this.filterIm } : null;
+    this.partitions = partitions;
+    this.filterRe = filter.re;
+    this.filterIm = filter.im;
+  }
+
+  /**
+   * Filters one block per channel. `input` and `output` may be the same arrays; their length
+   * must be a multiple of the block size.
+   */
+  process(input: Float32Array[], output: Float32Array[]): void {
+    const { blockSize } = this;
+    for (let start = 0; start < output[0].length; start += blockSize) {
+      for (let channel = 0; channel < output.length; channel++) {
+        const source = input[Math.min(channel, input.length - 1)].subarray(start, start + blockSize);
+        this.processBlock(this.getChannel(channel), source, output[channel].subarray(start, start + blockSize));
+      }
+      this.previous = null;
+    }
+  }
+
+  private getChannel(index: number): ChannelState {
+    if (!this.channels[index]) {
+      const size = this.partitions * (this.blockSize + 1);
+      this.channels[index] = {
+        history: new Float64Array(this.fftSize),
+        spectraRe: new Float64Array(size),
+        spectraIm: new Float64Array(size),
+        head: 0,
+      };
+    }
+    return this.channels[index];
+  }
+
+  // Keeps the most recent input spectra when the filter length changes
+  private resizeChannels(partitions: number): void {
+    const bins = this.blockSize + 1;
+    this.channels = this.channels.map(channel => {
+      const spectraRe = new Float64Array(partitions * bins);
+      const spectraIm = new Float64Array(partitions * bins);
+      for (let p = 0; p < Math.min(partitions, this.partitions); p++) {
+        const from = ((channel.head + p) % this.partitions) * bins;
+        spectraRe.set(channel.spectraRe.subarray(from, from + bins), p * bins);
+        spectraIm.set(channel.spectraIm.subarray(from, from + bins), p * bins);
+      }
+      return { history: channel.history, spectraRe, spectraIm, head: 0 };
+    });
+  }
+
+  private processBlock(channel: ChannelState, input: Float32Array, output: Float32Array): void {
+    const { blockSize, partitions, re, im } = this;
+    const bins = blockSize + 1;
+
+    // Transform the last two blocks of input into the newest slot of the delay line
+    channel.history.copyWithin(0, blockSize);
+    channel.history.set(input, blockSize);
+    re.set(channel.history);
+    im.fill(0);
+    fft(re, im);
+    channel.head = (channel.head + partitions - 1) % partitions;
+    channel.spectraRe.set(re.subarray(0, bins), channel.head * bins);
+    channel.spectraIm.set(im.subarray(0, bins), channel.head * bins);
+
+    if (this.previous) {
+      this.convolve(channel, this.previous.re, this.previous.im, this.faded);
+      this.convolve(channel, this.filterRe, this.filterIm, output);
+      for (let i = 0; i < blockSize; i++) {
+        const fade = (i + 1) / blockSize;
+        output[i] = this.faded[i] + (output[i] - this.faded[i]) * fade;
+      }
+    } else {
+      this.convolve(channel, this.filterRe, this.filterIm, output);
+    }
+  }
+
+  // Sums every partition's product with its delayed input block, then transforms back
+  private convolve(channel: ChannelState, filterRe: Float64Array, filterIm: Float64Array, output: Float32Array | Float64Array): void {
+    const { blockSize, fftSize, partitions, re, im, accRe, accIm } = this;
+    const bins = blockSize + 1;
+    accRe.fill(0);
+    accIm.fill(0);
+
+    for (let p = 0; p < partitions; p++) {
+      const x = ((channel.head + p) % partitions) * bins;
+      const h = p * bins;
+      for (let k = 0; k < bins; k++) {
+        const xr = channel.spectraRe[x + k];
+        const xi = channel.spectraIm[x + k];
+        const hr = filterRe[h + k];
+        const hi = filterIm[h + k];
+        accRe[k] += xr * hr - xi * hi;
+        accIm[k] += xr * hi + xi * hr;
+      }
+    }
+
+    // Conjugate-symmetric spectrum, inverted by transforming with real and imaginary swapped
+    for (let k = 0; k < bins; k++) {
+      re[k] = accRe[k];
+      im[k] = accIm[k];
+    }
+    for (let k = bins; k < fftSize; k++) {
+      re[k] = accRe[fftSize - k];
+      im[k] = -accIm[fftSize - k];
+    }
+    fft(im, re);
+
+    // Overlap-save: the second half is the valid, unaliased part
+    for (let i = 0; i < blockSize; i++) output[i] = re[blockSize + i] / fftSize;
+  }
+}
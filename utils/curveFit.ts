@@ -0,0 +1,264 @@
+import { BandType, EQBand, FrequencyPoint } from '../types';
+import { MIN_FREQ, MAX_FREQ, MIN_GAIN, MAX_GAIN, MIN_Q, MAX_Q, MAX_BANDS, DEFAULT_Q, GAINLESS_BAND_TYPES } from '../constants';
+import { calculateOverallFrequencyResponse } from './audioProcessor';
+import { createBand } from './bandUtils';
+
+/**
+ * Fits EQ bands to a target response curve by pattern search: every free parameter
+ * (log frequency, gain, log Q) is nudged up and down, moves that lower the squared error are
+ * kept, and a parameter's step is halved whenever neither direction helps.
+ *
+ * Targets are sampled like calculateOverallFrequencyResponse output: log-spaced from MIN_FREQ
+ * to MAX_FREQ (see resampleTargetCurve). Master gain is not part of the fit.
+ */
+
+export interface FitResult {
+  bands: EQBand[];
+  rmsError: number; // dB, over the target points
+}
+
+export interface AutoFitOptions {
+  numBands: number;  // Bands to place in addition to the locked ones
+  sampleRate: number;
+}
+
+interface ParameterSpec {
+  initialStep: number;
+  minStep: number;
+}
+
+// Per parameter: frequency in octaves, gain in dB, Q in octaves of Q
+const PARAMETERS: ParameterSpec[] = [
+  { initialStep: 0.5, minStep: 0.005 },
+  { initialStep: 3, minStep: 0.02 },
+  { initialStep: 0.5, minStep: 0.01 },
+];
+const MAX_SWEEPS = 200;
+
+// Band types the auto-fit chooses between
+export const AUTO_FIT_TYPES = [BandType.PEAK, BandType.LOW_SHELF, BandType.HIGH_SHELF];
+
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(max, value));
+
+/** Whether the fitter may move a band: enabled, not locked and with a gain to set. */
+export const isFittable = (band: EQBand): boolean =>
+  band.enabled && !band.locked && !GAINLESS_BAND_TYPES.includes(band.type);
+
+/**
+ * Difference between the bands' combined response and `target` at each target frequency
+ * (positive where the bands are above the target).
+ */
+export const getFitResidual = (bands: EQBand[], target: FrequencyPoint[], sampleRate: number): FrequencyPoint[] => {
+  const response = calculateOverallFrequencyResponse(bands, 0, MIN_FREQ, MAX_FREQ, target.length, sampleRate);
+  return target.map((point, i) => ({ frequency: point.frequency, gain: response[i].gain - point.gain }));
+};
+
+export const calculateRmsError = (residual: FrequencyPoint[]): number =>
+  residual.length > 0 ? Math.sqrt(residual.reduce((sum, point) => sum + point.gain * point.gain, 0) / residual.length) : 0;
+
+// Values as shown in the band controls, so the fitted bands read cleanly
+const roundBand = (band: EQBand): EQBand => ({
+  ...band,
+  frequency: Math.round(band.frequency),
+  gain: Math.round(band.gain * 10) / 10,
+  q: Math.round(band.q * 100) / 100,
+});
+
+/**
+ * A set of bands with each band's response cached, so trying a change to one band only
+ * redesigns that band.
+ */
+class FitState {
+  readonly bands: EQBand[] = [];
+  error: number;
+  private readonly responses: Float64Array[] = [];
+  private readonly total: Float64Array;
+  private readonly target: FrequencyPoint[];
+  private readonly sampleRate: number;
+  private readonly maxFrequency: number;
+
+  constructor(bands: EQBand[], target: FrequencyPoint[], sampleRate: number) {
+    this.target = target;
+    this.sampleRate = sampleRate;
+    this.maxFrequency = Math.min(MAX_FREQ, sampleRate * 0.45);
+    this.total = new Float64Array(target.length);
+    this.error = target.reduce((sum, point) => sum + point.gain * point.gain, 0);
+    bands.forEach(band => this.add(band));
+  }
+
+  /** Target minus the current response. */
+  get residual(): Float64Array {
+    return Float64Array.from(this.target, (point, i) => point.gain - this.total[i]);
+  }
+
+  add(band: EQBand): number {
+    this.bands.push(band);
+    this.responses.push(new Float64Array(this.target.length));
+    const index = this.bands.length - 1;
+    this.set(index, band, this.respond(band));
+    return index;
+  }
+
+  removeLast(): void {
+    const index = this.bands.length - 1;
+    this.set(index, this.bands[index], new Float64Array(this.target.length));
+    this.bands.pop();
+    this.responses.pop();
+  }
+
+  replace(index: number, band: EQBand): void {
+    this.set(index, band, this.respond(band));
+  }
+
+  /** Pattern search over frequency, gain and Q of the bands at `indices`. */
+  refine(indices: number[], maxSweeps: number = MAX_SWEEPS): void {
+    const values = new Map(indices.map(index => [index, this.toValues(this.bands[index])]));
+    const steps = new Map(indices.map(index => [index, PARAMETERS.map(p => p.initialStep)]));
+
+    for (let sweep = 0; sweep < maxSweeps; sweep++) {
+      let active = false;
+
+      for (const index of indices) {
+        const bandSteps = steps.get(index)!;
+        for (let p = 0; p < PARAMETERS.length; p++) {
+          if (bandSteps[p] < PARAMETERS[p].minStep) continue;
+          active = true;
+
+          let improved = false;
+          for (const direction of [1, -1]) {
+            const candidate = [...values.get(index)!];
+            candidate[p] += direction * bandSteps[p];
+            const band = this.fromValues(this.bands[index], candidate);
+            const response = this.respond(band);
+            if (this.errorWith(index, response) < this.error) {
+              this.set(index, band, response);
+              values.set(index, this.toValues(band));
+              improved = true;
+              break;
+            }
+          }
+          if (!improved) bandSteps[p] /= 2;
+        }
+      }
+
+      if (!active) break;
+    }
+  }
+
+  private respond(band: EQBand): Float64Array {
+    const response = calculateOverallFrequencyResponse([band], 0, MIN_FREQ, MAX_FREQ, this.target.length, this.sampleRate);
+    return Float64Array.from(response, point => point.gain);
+  }
+
+  private errorWith(index: number, response: Float64Array): number {
+    let sum = 0;
+    for (let i = 0; i < this.target.length; i++) {
+      const value = this.total[i] - this.responses[index][i] + response[i] - this.target[i].gain;
+      sum += value * value;
+    }
+    return sum;
+  }
+
+  private set(index: number, band: EQBand, response: Float64Array): void {
+    this.error = this.errorWith(index, response);
+    for (let i = 0; i < this.target.length; i++) this.total[i] += response[i] - this.responses[index][i];
+    this.responses[index] = response;
+    this.bands[index] = band;
+  }
+
+  private toValues(band: EQBand): number[] {
+    return [Math.log2(band.frequency), band.gain, Math.log2(band.q)];
+  }
+
+  private fromValues(band: EQBand, values: number[]): EQBand {
+    return {
+      ...band,
+      frequency: clamp(Math.pow(2, values[0]), MIN_FREQ, this.maxFrequency),
+      gain: clamp(values[1], MIN_GAIN, MAX_GAIN),
+      q: clamp(Math.pow(2, values[2]), MIN_Q, MAX_Q),
+    };
+  }
+}
+
+/**
+ * Adjusts frequency, gain and Q of the fittable bands (see isFittable) so their combined
+ * response follows `target`. Other bands keep their settings but still count towards the
+ * response, so e.g. a low cut is fitted around. Band order and ids are unchanged.
+ */
+export const fitBandsToTarget = (bands: EQBand[], target: FrequencyPoint[], sampleRate: number): FitResult => {
+  const state = new FitState(bands, target, sampleRate);
+  const free = bands.map((band, index) => index).filter(index => isFittable(bands[index]));
+  state.refine(free);
+
+  const fitted = state.bands.map((band, index) => (free.includes(index) ? roundBand(band) : bands[index]));
+  return { bands: fitted, rmsError: calculateRmsError(getFitResidual(fitted, target, sampleRate)) };
+};
+
+/**
+ * Designs `numBands` bands (type included) that, together with the locked bands, follow
+ * `target`. Locked bands are kept unchanged; unlocked ones are replaced, their ids reused
+ * first. The total stays within MAX_BANDS.
+ *
+ * Bands are placed one at a time where the remaining error is largest, trying each of
+ * AUTO_FIT_TYPES there; then all of them are refined together, each is offered the other
+ * types once more, and a last joint refinement follows.
+ *
+ * @param onProgress Called with progress (0..1) and the RMS error so far.
+ */
+export const autoFitBands = (
+  bands: EQBand[],
+  target: FrequencyPoint[],
+  { numBands, sampleRate }: AutoFitOptions,
+  onProgress?: (progress: number, rmsError: number) => void,
+): FitResult => {
+  const locked = bands.filter(band => band.locked);
+  const reusable = bands.filter(band => !band.locked);
+  const count = clamp(Math.round(numBands), 0, MAX_BANDS - locked.length);
+  const state = new FitState(locked, target, sampleRate);
+  const rms = () => Math.sqrt(state.error / Math.max(1, target.length));
+  const stages = count + 2;
+
+  const placed: number[] = [];
+  for (let n = 0; n < count; n++) {
+    const residual = state.residual;
+    let peak = 0;
+    residual.forEach((value, i) => { if (Math.abs(value) > Math.abs(residual[peak])) peak = i; });
+    const frequency = target[peak]?.frequency ?? 1000;
+    const gain = clamp(residual[peak] ?? 0, MIN_GAIN, MAX_GAIN);
+
+    const base: EQBand = reusable[n]
+      ? { ...reusable[n], enabled: true, solo: false, isDynamic: false, frequency, gain, q: DEFAULT_Q }
+      : createBand(state.bands, frequency, gain)!;
+
+    let best: { band: EQBand; error: number } | null = null;
+    for (const type of AUTO_FIT_TYPES) {
+      const index = state.add({ ...base, type });
+      state.refine([index]);
+      if (!best || state.error < best.error) best = { band: state.bands[index], error: state.error };
+      state.removeLast();
+    }
+    placed.push(state.add(best!.band));
+    onProgress?.((n + 1) / stages, rms());
+  }
+
+  state.refine(placed);
+  onProgress?.((count + 1) / stages, rms());
+
+  for (const index of placed) {
+    const current = state.bands[index];
+    const currentError = state.error;
+    for (const type of AUTO_FIT_TYPES) {
+      if (type === current.type) continue;
+      state.replace(index, { ...current, type });
+      state.refine([index]);
+      if (state.error < currentError) break;
+      state.replace(index, current);
+    }
+  }
+  state.refine(placed);
+
+  const fitted = state.bands.map((band, index) => (placed.includes(index) ? roundBand(band) : band));
+  const rmsError = calculateRmsError(getFitResidual(fitted, target, sampleRate));
+  onProgress?.(1, rmsError);
+  return { bands: fitted, rmsError };
+};
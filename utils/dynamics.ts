@@ -0,0 +1,30 @@
+import { EQBand, DynamicMode } from '../types';
+import { DEFAULT_DYNAMICS } from '../constants';
+
+/**
+ * One-pole smoothing coefficient for an attack/release time in milliseconds.
+ */
+export const timeToCoefficient = (timeMs: number, sampleRate: number): number =>
+  Math.exp(-1 / (Math.max(0.1, timeMs) * 0.001 * sampleRate));
+
+/**
+ * Static gain computer of a dynamic band (hard knee).
+ * Returns the gain change in dB (always <= 0) for a detected band level in dB,
+ * limited to the band's dynamic range.
+ */
+export const computeGainReduction = (levelDb: number, band: EQBand): number => {
+  const threshold = band.threshold ?? DEFAULT_DYNAMICS.threshold;
+  const ratio = Math.max(1, band.ratio ?? DEFAULT_DYNAMICS.ratio);
+  const range = band.dynamicRange ?? 6;
+
+  let reduction: number;
+  if ((band.dynamicMode ?? DEFAULT_DYNAMICS.dynamicMode) === DynamicMode.BELOW) {
+    // Downward expansion: every dB under threshold costs (ratio - 1) dB
+    reduction = Math.max(0, threshold - levelDb) * (ratio - 1);
+  } else {
+    // Compression: every dB over threshold is reduced to 1/ratio dB
+    reduction = Math.max(0, levelDb - threshold) * (1 - 1 / ratio);
+  }
+
+  return -Math.min(range, reduction);
+};
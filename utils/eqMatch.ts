@@ -0,0 +1,90 @@
+import { FrequencyPoint } from '../types';
+import { createWindow } from './fft';
+import { computePowerSpectrum, mapPowerToLogAxis } from './spectrumAnalyzer';
+
+/**
+ * EQ matching: long-term average spectra (LTAS) of a reference and a source track, and the
+ * correction curve that would make the source sound like the reference.
+ */
+
+export interface LongTermSpectrum {
+  power: Float64Array; // Mean power per FFT bin, up to Nyquist
+  binWidth: number;    // Hz
+}
+
+const LTAS_FFT_SIZE = 8192;
+// Long files are sampled rather than analysed end to end, so a whole album stays quick
+const MAX_LTAS_FRAMES = 1500;
+// Below this level (dBFS) in either track there is nothing to match
+const MATCH_FLOOR = -110;
+// The overall level difference is measured (and removed) over this range, where both tracks have content
+const LEVEL_REFERENCE_RANGE = { min: 100, max: 10000 }; // Hz
+// Largest correction the curve may ask for, dB
+export const MAX_MATCH_CORRECTION = 12;
+
+/**
+ * Mean power spectrum over Hann-windowed frames with 50% overlap, averaged over all channels.
+ */
+export const computeLongTermSpectrum = (channels: Float32Array[], sampleRate: number): LongTermSpectrum => {
+  const window = createWindow('hann', LTAS_FFT_SIZE);
+  const re = new Float64Array(LTAS_FFT_SIZE);
+  const im = new Float64Array(LTAS_FFT_SIZE);
+  const frame = new Float64Array(LTAS_FFT_SIZE / 2 + 1);
+  const power = new Float64Array(LTAS_FFT_SIZE / 2 + 1);
+
+  const length = channels[0]?.length ?? 0;
+  const frameCount = Math.max(1, Math.floor((length - LTAS_FFT_SIZE) / (LTAS_FFT_SIZE / 2)) + 1);
+  const framesPerChannel = Math.max(1, Math.floor(MAX_LTAS_FRAMES / Math.max(1, channels.length)));
+  const stride = Math.max(1, frameCount / framesPerChannel);
+
+  let analysed = 0;
+  const samples = new Float32Array(LTAS_FFT_SIZE);
+  for (const channel of channels) {
+    for (let f = 0; f < frameCount; f += stride) {
+      // A file shorter than one frame is zero-padded
+      const start = Math.floor(f) * (LTAS_FFT_SIZE / 2);
+      samples.fill(0);
+      samples.set(channel.subarray(start, start + LTAS_FFT_SIZE));
+      computePowerSpectrum(samples, window, re, im, frame);
+      for (let k = 0; k < power.length; k++) power[k] += frame[k];
+      analysed++;
+    }
+  }
+
+  if (analysed > 0) for (let k = 0; k < power.length; k++) power[k] /= analysed;
+  return { power, binWidth: sampleRate / LTAS_FFT_SIZE };
+};
+
+/**
+ * Correction curve (dB) taking `source` towards `reference`: the difference of their
+ * 1/`smoothing`-octave smoothed spectra, with the overall level difference removed, limited
+ * to ±MAX_MATCH_CORRECTION and scaled by `amount` (0..1). Where either track is silent the
+ * curve is 0.
+ */
+export const computeMatchCurve = (
+  reference: LongTermSpectrum,
+  source: LongTermSpectrum,
+  smoothing: number,
+  amount: number,
+  minFreq: number,
+  maxFreq: number,
+  numPoints: number,
+): FrequencyPoint[] => {
+  const referenceDb = mapPowerToLogAxis(reference.power, reference.binWidth, minFreq, maxFreq, numPoints, smoothing);
+  const sourceDb = mapPowerToLogAxis(source.power, source.binWidth, minFreq, maxFreq, numPoints, smoothing);
+
+  const difference = referenceDb.map((point, i) =>
+    point.gain > MATCH_FLOOR && sourceDb[i].gain > MATCH_FLOOR ? point.gain - sourceDb[i].gain : null
+  );
+
+  const levelPoints = difference.filter((value, i): value is number =>
+    value !== null && referenceDb[i].frequency >= LEVEL_REFERENCE_RANGE.min && referenceDb[i].frequency <= LEVEL_REFERENCE_RANGE.max
+  );
+  const level = levelPoints.length > 0 ? levelPoints.reduce((sum, value) => sum + value, 0) / levelPoints.length : 0;
+
+  return referenceDb.map((point, i) => {
+    const value = difference[i];
+    const correction = value === null ? 0 : Math.max(-MAX_MATCH_CORRECTION, Math.min(MAX_MATCH_CORRECTION, value - level));
+    return { frequency: point.frequency, gain: correction * amount };
+  });
+};
@@ -0,0 +1,320 @@
+import { EQBand, BandType, BiquadCoefficients } from '../types';
+import { EQ_PROCESSOR_NAME, DEFAULT_DYNAMICS, MIN_Q, CONVOLVER_BLOCK_SIZE } from '../constants';
+import { calculateBandCoefficients, makeBandPass } from './biquad';
+import { computeGainReduction, timeToCoefficient } from './dynamics';
+import { Convolver, PartitionedFilter } from './convolver';
+
+/**
+ * AudioWorklet that runs the EQ as a cascade of biquads designed by `calculateBandCoefficients`,
+ * i.e. exactly the filters drawn by the response graph and exported to the plugin. In the
+ * natural- and linear-phase modes it runs the FIR from `designFir` instead (static: dynamic
+ * bands stay at their set gain there), received already partitioned for its convolver.
+ * Loaded by AudioEngine through Vite's `?worker&url` import, so it runs in the AudioWorkletGlobalScope.
+ */
+
+// AudioWorkletGlobalScope members (TypeScript ships no lib for this scope)
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(name: string, processorCtor: typeof AudioWorkletProcessor): void;
+
+export type EQProcessorMessage =
+  | { type: 'bands'; bands: EQBand[] }
+  | { type: 'fir'; filter: PartitionedFilter | null }; // null goes back to the biquads
+// Passed as `processorOptions`: bands (and FIR) to start with, already at their settings (no fade-in).
+// Offline rendering uses this, since a message could arrive after rendering has started.
+export type EQProcessorOptions = { bands?: EQBand[]; fir?: PartitionedFilter };
+// Sent back to the main thread: current gain reduction (dB) of every dynamic band, by band id
+export type EQProcessorEvent = { type: 'gainReduction'; values: [number, number][] };
+
+// Parameters are smoothed and coefficients redesigned every SUB_BLOCK samples
+const SUB_BLOCK = 32;
+const SMOOTHING_TIME = 0.015; // seconds
+const REPORT_INTERVAL = 0.025; // seconds between gain reduction reports
+
+interface BandState {
+  target: EQBand;
+  frequency: number;
+  gain: number;
+  q: number;
+  mix: number; // 0 = band bypassed, 1 = fully in circuit
+  removed: boolean; // No longer in the band list: fades out like a disabled band, then is dropped
+  type: BandType;
+  slope?: number;
+  sections: BiquadCoefficients[];
+  // Transposed direct form II state, [z1, z2] per section, one array per channel
+  state: Float64Array[];
+  // Dynamic EQ: band-limited sidechain detector
+  envelope: number;
+  reduction: number;        // dB, from the gain computer
+  appliedReduction: number; // dB, built into the current sections
+  detectorState: Float64Array[];
+}
+
+const approach = (current: number, target: number, alpha: number): number => {
+  const next = current + (target - current) * alpha;
+  return Math.abs(target - next) < 1e-4 ? target : next;
+};
+
+class EQProcessor extends AudioWorkletProcessor {
+  private bands: BandState[] = [];
+  private alpha = 1 - Math.exp(-SUB_BLOCK / (SMOOTHING_TIME * sampleRate));
+  private samplesSinceReport = 0;
+  private convolver: Convolver | null = null; // Replaces the biquads in the FIR modes
+  // Set when the mode changed: the previous path, cross-faded out over the next block (null = biquads)
+  private switching: { from: Convolver | null } | null = null;
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    const processorOptions = options?.processorOptions as EQProcessorOptions | undefined;
+    if (processorOptions?.bands) {
+      this.setBands(processorOptions.bands);
+      for (const band of this.bands) band.mix = band.target.enabled ? 1 : 0;
+    }
+    if (processorOptions?.fir) {
+      this.setFir(processorOptions.fir);
+      this.switching = null;
+    }
+    this.port.onmessage = (event: MessageEvent<EQProcessorMessage>) => {
+      if (event.data.type === 'bands') this.setBands(event.data.bands);
+      else this.setFir(event.data.filter);
+    };
+  }
+
+  private setFir(filter: PartitionedFilter | null): void {
+    // A new filter of the same mode is cross-faded by the convolver, which keeps its input history
+    if (filter && this.convolver) {
+      this.convolver.setFilter(filter);
+      return;
+    }
+    if (!filter && !this.convolver) return;
+
+    this.switching = { from: this.convolver };
+    this.convolver = null;
+    if (filter) {
+      this.convolver = new Convolver(CONVOLVER_BLOCK_SIZE);
+      this.convolver.setFilter(filter);
+    }
+  }
+
+  private setBands(bands: EQBand[]): void {
+    const previous = new Map(this.bands.map(state => [state.target.id, state]));
+
+    const next: BandState[] = bands.map(band => {
+      const existing = previous.get(band.id);
+      if (existing) {
+        existing.target = band;
+        existing.removed = false;
+        return existing;
+      }
+      // New bands start at their target settings and fade in
+      return {
+        target: band,
+        frequency: band.frequency,
+        gain: band.gain,
+        q: band.q,
+        mix: 0,
+        removed: false,
+        type: band.type,
+        slope: band.slope,
+        sections: calculateBandCoefficients(band, sampleRate),
+        state: [],
+        envelope: 0,
+        reduction: 0,
+        appliedReduction: 0,
+        detectorState: [],
+      };
+    });
+
+    // Removed bands keep their place in the cascade while they fade out. The FIR modes do not
+    // run the biquads, so there they go at once.
+    const ids = new Set(bands.map(band => band.id));
+    this.bands.forEach((state, index) => {
+      if (ids.has(state.target.id) || state.mix === 0 || this.convolver) return;
+      state.removed = true;
+      next.splice(Math.min(index, next.length), 0, state);
+    });
+    this.bands = next;
+  }
+
+  private advance(band: BandState): void {
+    const { target } = band;
+    const frequency = band.frequency * Math.pow(target.frequency / band.frequency, this.alpha);
+    const gain = approach(band.gain, target.gain, this.alpha);
+    const q = approach(band.q, target.q, this.alpha);
+    band.mix = approach(band.mix, target.enabled && !band.removed ? 1 : 0, this.alpha);
+
+    const changed = frequency !== band.frequency || gain !== band.gain || q !== band.q
+      || target.type !== band.type || target.slope !== band.slope || band.reduction !== band.appliedReduction;
+    if (!changed) return;
+
+    band.frequency = Math.abs(frequency - target.frequency) < 1e-3 ? target.frequency : frequency;
+    band.gain = gain;
+    band.q = q;
+    band.type = target.type;
+    band.slope = target.slope;
+    band.appliedReduction = band.reduction;
+
+    const sections = calculateBandCoefficients(
+      { ...target, frequency: band.frequency, gain: gain + band.reduction, q },
+      sampleRate,
+    );
+    if (sections.length !== band.sections.length) band.state = [];
+    band.sections = sections;
+  }
+
+  /**
+   * Runs the band's sidechain (a band-pass on the *input* signal at the band's frequency and Q)
+   * through a stereo-linked peak envelope follower, then updates the gain reduction.
+   */
+  private detect(band: BandState, input: Float32Array[], start: number, end: number): void {
+    const { target } = band;
+    if (!target.isDynamic || !target.enabled) {
+      band.envelope = 0;
+      band.reduction = 0;
+      band.detectorState = [];
+      return;
+    }
+
+    const c = makeBandPass(sampleRate, band.frequency, Math.max(MIN_Q, band.q));
+    const attack = timeToCoefficient(target.attack ?? DEFAULT_DYNAMICS.attack, sampleRate);
+    const release = timeToCoefficient(target.release ?? DEFAULT_DYNAMICS.release, sampleRate);
+    let envelope = band.envelope;
+
+    for (let channel = 0; channel < input.length; channel++) {
+      if (!band.detectorState[channel]) band.detectorState[channel] = new Float64Array(2);
+    }
+
+    for (let i = start; i < end; i++) {
+      let peak = 0;
+      for (let channel = 0; channel < input.length; channel++) {
+        const z = band.detectorState[channel];
+        const x = input[channel][i];
+        const y = c.b0 * x + z[0];
+        z[0] = c.b1 * x - c.a1 * y + z[1];
+        z[1] = c.b2 * x - c.a2 * y;
+        peak = Math.max(peak, Math.abs(y));
+      }
+      const coeff = peak > envelope ? attack : release;
+      envelope = coeff * envelope + (1 - coeff) * peak;
+    }
+
+    band.envelope = envelope;
+    band.reduction = computeGainReduction(20 * Math.log10(Math.max(envelope, 1e-9)), target);
+  }
+
+  private report(): void {
+    const values: [number, number][] = this.bands
+      .filter(band => band.target.isDynamic && !band.removed)
+      .map(band => [band.target.id, band.reduction]);
+    if (values.length === 0) return;
+
+    const event: EQProcessorEvent = { type: 'gainReduction', values };
+    this.port.postMessage(event);
+  }
+
+  private processBand(band: BandState, data: Float32Array, channel: number, start: number, end: number): void {
+    const { sections, mix } = band;
+    let state = band.state[channel];
+    if (!state) {
+      state = new Float64Array(sections.length * 2);
+      band.state[channel] = state;
+    }
+
+    for (let i = start; i < end; i++) {
+      const dry = data[i];
+      let x = dry;
+      for (let s = 0; s < sections.length; s++) {
+        const c = sections[s];
+        const z = s * 2;
+        const y = c.b0 * x + state[z];
+        state[z] = c.b1 * x - c.a1 * y + state[z + 1];
+        state[z + 1] = c.b2 * x - c.a2 * y;
+        x = y;
+      }
+      data[i] = mix === 1 ? x : dry + (x - dry) * mix;
+    }
+  }
+
+  private processBiquads(input: Float32Array[], output: Float32Array[]): void {
+    const length = output[0].length;
+
+    for (let start = 0; start < length; start += SUB_BLOCK) {
+      const end = Math.min(length, start + SUB_BLOCK);
+
+      if (this.bands.some(band => band.removed && band.mix === 0)) {
+        this.bands = this.bands.filter(band => !band.removed || band.mix > 0);
+      }
+
+      for (const band of this.bands) {
+        this.detect(band, input, start, end);
+        this.advance(band);
+
+        if (band.mix === 0) {
+          // Fully bypassed: drop the filter memory so re-enabling starts clean
+          band.state = [];
+          continue;
+        }
+
+        for (let channel = 0; channel < output.length; channel++) {
+          this.processBand(band, output[channel], channel, start, end);
+        }
+      }
+    }
+  }
+
+  // Filters `output` (holding a copy of the input) in place with the given path
+  private processPath(convolver: Convolver | null, input: Float32Array[], output: Float32Array[]): void {
+    if (convolver) convolver.process(output, output);
+    else this.processBiquads(input, output);
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || input.length === 0) return true;
+
+    const length = output[0].length;
+
+    for (let channel = 0; channel < output.length; channel++) {
+      output[channel].set(input[Math.min(channel, input.length - 1)]);
+    }
+
+    // After a mode change, fade from the previous path to the new one over this block
+    const switching = this.switching;
+    this.switching = null;
+    const previous = switching ? output.map(data => Float32Array.from(data)) : null;
+    if (switching && previous) this.processPath(switching.from, input, previous);
+
+    this.processPath(this.convolver, input, output);
+
+    if (previous) {
+      for (let channel = 0; channel < output.length; channel++) {
+        const data = output[channel];
+        for (let i = 0; i < length; i++) data[i] = previous[channel][i] + (data[i] - previous[channel][i]) * ((i + 1) / length);
+      }
+    }
+
+    // Biquads that were just faded out keep their state until here, so the fade starts from where
+    // they were; switching back to them later starts from silence
+    if (switching && !switching.from) {
+      this.bands = this.bands.filter(band => !band.removed);
+      for (const band of this.bands) {
+        band.state = [];
+        band.reduction = 0;
+      }
+    }
+
+    this.samplesSinceReport += length;
+    if (this.samplesSinceReport >= REPORT_INTERVAL * sampleRate) {
+      this.samplesSinceReport = 0;
+      this.report();
+    }
+
+    return true;
+  }
+}
+
+registerProcessor(EQ_PROCESSOR_NAME, EQProcessor);
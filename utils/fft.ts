@@ -0,0 +1,60 @@
+import { AnalyzerWindow } from '../types';
+
+/**
+ * In-place iterative radix-2 FFT. `re` and `im` hold the input on entry and the spectrum on
+ * return; their length must be a power of two.
+ */
+export const fft = (re: Float64Array, im: Float64Array): void => {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const step = (-2 * Math.PI) / size;
+    for (let k = 0; k < half; k++) {
+      const wr = Math.cos(step * k);
+      const wi = Math.sin(step * k);
+      for (let start = k; start < n; start += size) {
+        const odd = start + half;
+        const tr = wr * re[odd] - wi * im[odd];
+        const ti = wr * im[odd] + wi * re[odd];
+        re[odd] = re[start] - tr;
+        im[odd] = im[start] - ti;
+        re[start] += tr;
+        im[start] += ti;
+      }
+    }
+  }
+};
+
+// Cosine-sum coefficients a0, a1, a2, ... of w[n] = a0 - a1 cos(x) + a2 cos(2x) - ...
+const WINDOW_COEFFICIENTS: Record<AnalyzerWindow, number[]> = {
+  hann: [0.5, 0.5],
+  'blackman-harris': [0.35875, 0.48829, 0.14128, 0.01168],
+  'flat-top': [0.21557895, 0.41663158, 0.277263158, 0.083578947, 0.006947368],
+};
+
+/**
+ * Periodic (DFT-even) analysis window of `size` samples.
+ */
+export const createWindow = (type: AnalyzerWindow, size: number): Float64Array => {
+  const coefficients = WINDOW_COEFFICIENTS[type];
+  const window = new Float64Array(size);
+  for (let n = 0; n < size; n++) {
+    const x = (2 * Math.PI * n) / size;
+    let value = 0;
+    coefficients.forEach((a, k) => { value += (k % 2 === 0 ? a : -a) * Math.cos(k * x); });
+    window[n] = value;
+  }
+  return window;
+};
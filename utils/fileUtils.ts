@@ -0,0 +1,20 @@
+/**
+ * Triggers a browser download of generated content.
+ */
+export const downloadFile = (filename: string, content: BlobPart, type: string = 'text/plain'): void => {
+  const element = document.createElement('a');
+  const file = new Blob([content], { type });
+  element.href = URL.createObjectURL(file);
+  element.download = filename;
+  document.body.appendChild(element);
+  element.click();
+  document.body.removeChild(element);
+  // Revoke after the click has been handled, some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(element.href), 0);
+};
+
+/**
+ * Turns a display name into something safe to use as a file name.
+ */
+export const toFileName = (name: string, extension: string): string =>
+  `${name.trim().replace(/[^a-z0-9-_ ]+/gi, '').replace(/\s+/g, '_') || 'untitled'}.${extension}`;
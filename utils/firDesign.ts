@@ -0,0 +1,175 @@
+import { BiquadCoefficients, EQBand, ProcessingSettings } from '../types';
+import { MIN_FREQ, MAX_FREQ, NATURAL_PHASE_LATENCY, FIR_CHECK_FLOOR } from '../constants';
+import { CascadeResponse, calculateBandCoefficients, getCascadeGainDb, getCascadeResponse } from './biquad';
+import { fft } from './fft';
+
+/**
+ * Responses and FIR filters of the processing modes (see ProcessingMode).
+ *
+ * Every biquad is the bilinear transform of an analog prototype, prewarped at the band
+ * frequency, so the prototype's response at f is the biquad's at the frequency the transform
+ * maps onto f. Natural phase evaluates the bands that way: the analog magnitude and phase,
+ * without the cramping towards Nyquist. Linear phase keeps the biquads' magnitude and drops
+ * their phase. Both are run as an FIR delayed by getProcessingLatency.
+ */
+
+export interface BandSections {
+  frequency: number; // Design frequency, clamped below Nyquist like the biquad design does
+  sections: BiquadCoefficients[];
+}
+
+/** Designs the enabled bands, keeping each band's sections together. */
+export const designBandSections = (bands: EQBand[], sampleRate: number): BandSections[] =>
+  bands
+    .filter(band => band.enabled)
+    .map(band => ({
+      frequency: Math.min(band.frequency, sampleRate * 0.499),
+      sections: calculateBandCoefficients(band, sampleRate),
+    }));
+
+/** Samples by which a mode delays the signal. */
+export const getProcessingLatency = ({ mode, firLength }: ProcessingSettings): number => {
+  if (mode === 'linearPhase') return firLength / 2;
+  if (mode === 'naturalPhase') return NATURAL_PHASE_LATENCY;
+  return 0;
+};
+
+// Bilinear frequency warping: the frequency at which a biquad designed at `designFrequency`
+// responds like its prototype at `frequency`, and its derivative (to scale group delay)
+const toDigitalFrequency = (frequency: number, designFrequency: number, sampleRate: number) => {
+  const k = Math.tan((Math.PI * designFrequency) / sampleRate) / designFrequency;
+  return {
+    frequency: (sampleRate / Math.PI) * Math.atan(k * frequency),
+    slope: ((sampleRate / Math.PI) * k) / (1 + (k * frequency) * (k * frequency)),
+  };
+};
+
+const getAnalogResponse = (designs: BandSections[], frequency: number, sampleRate: number): CascadeResponse => {
+  let gain = 0;
+  let phase = 0;
+  let groupDelay = 0;
+  for (const design of designs) {
+    const digital = toDigitalFrequency(frequency, design.frequency, sampleRate);
+    const response = getCascadeResponse(design.sections, digital.frequency, sampleRate);
+    gain += response.gain;
+    phase += response.phase;
+    groupDelay += response.groupDelay * digital.slope;
+  }
+  return { gain, phase: phase - 360 * Math.round(phase / 360), groupDelay };
+};
+
+/**
+ * Magnitude, phase and group delay of the bands as a mode processes them. The phase leaves out
+ * the mode's constant latency (so linear phase reads 0 degrees); the group delay includes it.
+ */
+export const getProcessingResponse = (
+  designs: BandSections[],
+  frequency: number,
+  sampleRate: number,
+  settings: ProcessingSettings,
+): CascadeResponse => {
+  const latencyMs = (getProcessingLatency(settings) / sampleRate) * 1000;
+  if (settings.mode === 'naturalPhase') {
+    const response = getAnalogResponse(designs, frequency, sampleRate);
+    return { ...response, groupDelay: response.groupDelay + latencyMs };
+  }
+
+  const response = getCascadeResponse(designs.flatMap(design => design.sections), frequency, sampleRate);
+  return settings.mode === 'linearPhase' ? { gain: response.gain, phase: 0, groupDelay: latencyMs } : response;
+};
+
+// Flat, with half-cosine fades over the first `fadeIn` samples and the last quarter. Linear phase
+// fades in over the first quarter too (a Tukey window); natural phase only over its latency.
+const createFadeWindow = (length: number, fadeIn: number): Float64Array => {
+  const fadeOut = length / 4;
+  return Float64Array.from({ length }, (_, n) => {
+    if (n < fadeIn) return 0.5 - 0.5 * Math.cos((Math.PI * n) / fadeIn);
+    if (n > length - fadeOut) return 0.5 + 0.5 * Math.cos((Math.PI * (n - (length - fadeOut))) / fadeOut);
+    return 1;
+  });
+};
+
+/**
+ * FIR of a natural- or linear-phase mode (master gain not included), by frequency sampling:
+ * the mode's response, delayed by its latency, is sampled on a grid of twice the FIR length,
+ * transformed back and windowed down to `firLength` taps.
+ */
+export const designFir = (bands: EQBand[], sampleRate: number, settings: ProcessingSettings): Float32Array => {
+  const { mode, firLength } = settings;
+  const size = firLength * 2;
+  const designs = designBandSections(bands, sampleRate);
+  const sections = designs.flatMap(design => design.sections);
+  const latency = getProcessingLatency(settings);
+
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let k = 0; k <= size / 2; k++) {
+    const frequency = (k * sampleRate) / size;
+    let gain: number;
+    let phase = (-2 * Math.PI * k * latency) / size;
+    if (mode === 'naturalPhase') {
+      const response = getAnalogResponse(designs, frequency, sampleRate);
+      gain = response.gain;
+      phase += (response.phase * Math.PI) / 180;
+    } else {
+      gain = getCascadeGainDb(sections, frequency, sampleRate);
+    }
+
+    const magnitude = Math.pow(10, gain / 20);
+    re[k] = magnitude * Math.cos(phase);
+    im[k] = magnitude * Math.sin(phase);
+    if (k > 0 && k < size / 2) {
+      re[size - k] = re[k];
+      im[size - k] = -im[k];
+    }
+  }
+  // DC and Nyquist must be real for a real impulse response
+  im[0] = 0;
+  im[size / 2] = 0;
+
+  // Swapping real and imaginary parts turns the forward transform into an inverse one
+  fft(im, re);
+
+  const window = createFadeWindow(firLength, mode === 'linearPhase' ? firLength / 4 : latency);
+  return Float32Array.from(window, (w, n) => (re[n] / size) * w);
+};
+
+// The check zero-pads the FIR to at least this many points (0.73 Hz apart at 48 kHz), so even the
+// shortest FIR is checked finely enough to see narrow low bands, and then takes bins at most
+// 1/256 octave apart
+const CHECK_MIN_SIZE = 65536;
+const CHECK_STEP = Math.pow(2, 1 / 256);
+
+/**
+ * Offline check of an FIR from designFir: the largest deviation (dB) of its magnitude from
+ * what its mode aims for (for linear phase, the zero-latency minimum-phase curve), between
+ * MIN_FREQ and MAX_FREQ or 0.45 x the sample rate. Frequencies where the aim is below
+ * FIR_CHECK_FLOOR (cut stopbands) are skipped.
+ */
+export const getFirMagnitudeError = (
+  taps: Float32Array,
+  bands: EQBand[],
+  sampleRate: number,
+  settings: ProcessingSettings,
+): number => {
+  const size = Math.max(CHECK_MIN_SIZE, taps.length * 2);
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  re.set(taps);
+  fft(re, im);
+
+  const designs = designBandSections(bands, sampleRate);
+  const sections = designs.flatMap(design => design.sections);
+  const maxFrequency = Math.min(MAX_FREQ, sampleRate * 0.45);
+  let error = 0;
+  for (let k = Math.ceil((MIN_FREQ * size) / sampleRate); (k * sampleRate) / size <= maxFrequency; k = Math.max(k + 1, Math.floor(k * CHECK_STEP))) {
+    const frequency = (k * sampleRate) / size;
+    const expected = settings.mode === 'naturalPhase'
+      ? getAnalogResponse(designs, frequency, sampleRate).gain
+      : getCascadeGainDb(sections, frequency, sampleRate);
+    if (expected < FIR_CHECK_FLOOR) continue;
+    const actual = 10 * Math.log10(Math.max(re[k] * re[k] + im[k] * im[k], 1e-24));
+    error = Math.max(error, Math.abs(actual - expected));
+  }
+  return error;
+};
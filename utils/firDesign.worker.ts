@@ -0,0 +1,34 @@
+/**
+ * Web Worker designing the natural- and linear-phase FIRs (firDesign.designFir) off the main
+ * thread, and partitioning them for the worklet's convolver so the audio thread only swaps them in.
+ * One request per message, answered with one result.
+ */
+import { EQBand, ProcessingSettings } from '../types';
+import { CONVOLVER_BLOCK_SIZE } from '../constants';
+import { designFir, getFirMagnitudeError } from './firDesign';
+import { PartitionedFilter, partitionFilter } from './convolver';
+
+export interface FirDesignRequest {
+  bands: EQBand[];
+  sampleRate: number;
+  settings: ProcessingSettings;
+  measure: boolean; // Also run getFirMagnitudeError, which takes about as long as the design
+}
+
+export interface FirDesignResult {
+  settings: ProcessingSettings;
+  filter: PartitionedFilter;
+  magnitudeError: number | null; // dB, null when not measured
+}
+
+self.onmessage = (event: MessageEvent<FirDesignRequest>) => {
+  const { bands, sampleRate, settings, measure } = event.data;
+  const taps = designFir(bands, sampleRate, settings);
+  const filter = partitionFilter(taps, CONVOLVER_BLOCK_SIZE);
+  const result: FirDesignResult = {
+    settings,
+    filter,
+    magnitudeError: measure ? getFirMagnitudeError(taps, bands, sampleRate, settings) : null,
+  };
+  (self as unknown as Worker).postMessage(result, [filter.re.buffer, filter.im.buffer]);
+};
@@ -0,0 +1,59 @@
+import type { FirDesignRequest, FirDesignResult } from './firDesign.worker';
+import FirDesignWorker from './firDesign.worker.ts?worker';
+
+/**
+ * Designs FIRs in a worker (see firDesign.worker), one at a time. Requests made while one is
+ * being designed wait, and only the latest of them is designed next, so dragging a band
+ * redesigns as often as the worker keeps up rather than once per change.
+ */
+export class FirDesigner {
+  onResult: ((result: FirDesignResult) => void) | null = null;
+
+  private worker: Worker | null = null;
+  private busy = false;
+  private pending: FirDesignRequest | null = null;
+
+  design(request: FirDesignRequest): void {
+    this.pending = request;
+    this.next();
+  }
+
+  /** Drops a request that has not started yet. */
+  cancel(): void {
+    this.pending = null;
+  }
+
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending = null;
+    this.onResult = null;
+  }
+
+  private next(): void {
+    if (this.busy || !this.pending) return;
+    const request = this.pending;
+    this.pending = null;
+    this.busy = true;
+    this.getWorker().postMessage(request);
+  }
+
+  // Started on the first request, so the zero-latency mode never loads it
+  private getWorker(): Worker {
+    if (!this.worker) {
+      const worker = new FirDesignWorker();
+      worker.onmessage = (event: MessageEvent<FirDesignResult>) => {
+        this.busy = false;
+        this.onResult?.(event.data);
+        this.next();
+      };
+      worker.onerror = (event) => {
+        console.error('FIR design failed', event.message);
+        this.busy = false;
+        this.next();
+      };
+      this.worker = worker;
+    }
+    return this.worker;
+  }
+}
@@ -0,0 +1,136 @@
+import { EQBand } from '../types';
+
+/**
+ * Undo/redo history of the EQ state.
+ * Pure functions over an immutable HistoryState, so the App can keep it in a single useState.
+ */
+
+export interface EQSnapshot {
+  bands: EQBand[];
+  masterGain: number;
+}
+
+export interface HistoryEntry {
+  label: string;
+  snapshot: EQSnapshot;
+  // Set while a gesture (one drag, one slider move) is open: further edits with the same key
+  // replace this entry instead of adding one, until endGesture closes it
+  mergeKey?: string;
+  timestamp: number;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  present: HistoryEntry;
+  future: HistoryEntry[];
+}
+
+const MAX_HISTORY = 100;
+
+export const createHistory = (snapshot: EQSnapshot, label: string = 'Initial'): HistoryState => ({
+  past: [],
+  present: { label, snapshot, timestamp: Date.now() },
+  future: [],
+});
+
+/**
+ * Records a new state. Clears the redo stack.
+ */
+export const pushHistory = (
+  state: HistoryState,
+  snapshot: EQSnapshot,
+  label: string,
+  mergeKey?: string,
+): HistoryState => {
+  const now = Date.now();
+  const { present } = state;
+
+  if (mergeKey && present.mergeKey === mergeKey && state.future.length === 0) {
+    return { ...state, present: { ...present, snapshot, timestamp: now } };
+  }
+
+  return {
+    past: [...state.past, present].slice(-MAX_HISTORY),
+    present: { label, snapshot, mergeKey, timestamp: now },
+    future: [],
+  };
+};
+
+/**
+ * Closes the open gesture (on pointer up, drag end, slider release), so the next edit starts
+ * a new undo step even if it has the same merge key.
+ */
+export const endGesture = (state: HistoryState): HistoryState =>
+  state.present.mergeKey ? { ...state, present: { ...state.present, mergeKey: undefined } } : state;
+
+export const undo = (state: HistoryState): HistoryState => {
+  if (state.past.length === 0) return state;
+  const previous = state.past[state.past.length - 1];
+  return {
+    past: state.past.slice(0, -1),
+    // Entries that leave `present` never merge again
+    present: { ...previous, mergeKey: undefined },
+    future: [state.present, ...state.future],
+  };
+};
+
+export const redo = (state: HistoryState): HistoryState => {
+  if (state.future.length === 0) return state;
+  const [next, ...future] = state.future;
+  return {
+    past: [...state.past, state.present],
+    present: { ...next, mergeKey: undefined },
+    future,
+  };
+};
+
+/**
+ * Flat list of all entries, oldest first, for display. The present entry is at index `past.length`.
+ */
+export const getHistoryEntries = (state: HistoryState): HistoryEntry[] =>
+  [...state.past, state.present, ...state.future];
+
+/**
+ * Moves to the entry at `index` of getHistoryEntries().
+ */
+export const jumpToHistory = (state: HistoryState, index: number): HistoryState => {
+  const entries = getHistoryEntries(state);
+  if (index < 0 || index >= entries.length) return state;
+  return {
+    past: entries.slice(0, index),
+    present: { ...entries[index], mergeKey: undefined },
+    future: entries.slice(index + 1),
+  };
+};
+
+const PARAM_LABELS: Partial<Record<keyof EQBand, string>> = {
+  frequency: 'Freq',
+  gain: 'Gain',
+  q: 'Q',
+  type: 'Type',
+  enabled: 'On/Off',
+  solo: 'Solo',
+  locked: 'Lock',
+  slope: 'Slope',
+  isDynamic: 'Dynamic',
+  dynamicMode: 'Dyn Mode',
+  dynamicRange: 'Range',
+  threshold: 'Threshold',
+  ratio: 'Ratio',
+  attack: 'Attack',
+  release: 'Release',
+};
+
+// Parameters edited by dragging (graph, wheel, sliders); all other edits are discrete clicks
+const CONTINUOUS_PARAMS: (keyof EQBand)[] = ['frequency', 'gain', 'q', 'dynamicRange', 'threshold', 'ratio', 'attack', 'release'];
+
+/**
+ * History label and merge key for an edit of one band.
+ * Only continuous edits get a merge key, so e.g. two type changes stay two undo steps.
+ */
+export const describeBandChange = (id: number, changes: Partial<EQBand>): { label: string; mergeKey?: string } => {
+  const keys = Object.keys(changes) as (keyof EQBand)[];
+  const label = `Band ${id} ${keys.map(key => PARAM_LABELS[key] ?? key).join('/')}`;
+  const continuous = keys.every(key => CONTINUOUS_PARAMS.includes(key));
+  return { label, mergeKey: continuous ? `band-${id}-${keys.sort().join(',')}` : undefined };
+};
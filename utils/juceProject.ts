@@ -0,0 +1,227 @@
+import { ProcessingSettings } from '../types';
+import { DEFAULT_PROCESSING_SETTINGS, PROCESSING_MODES } from '../constants';
+import { createPluginSources, fitPluginPrograms, PluginProgram } from './vstTemplates';
+import { ZipEntry } from './zip';
+
+/**
+ * Builds a complete JUCE plugin project around the generated sources: CMakeLists.txt
+ * (juce_add_plugin), a Projucer .jucer file and a README, laid out as
+ *
+ *   <Name>/CMakeLists.txt, <Name>/<Name>.jucer, <Name>/README.md, <Name>/Source/...
+ */
+
+export type PluginFormat = 'VST3' | 'AU' | 'Standalone';
+
+export const PLUGIN_FORMATS: PluginFormat[] = ['VST3', 'AU', 'Standalone'];
+
+export interface PluginProjectSettings {
+  name: string;
+  manufacturer: string;
+  manufacturerCode: string; // 4 characters, at least one upper-case letter
+  pluginCode: string;       // 4 characters, unique per manufacturer
+  formats: PluginFormat[];
+}
+
+export const DEFAULT_PROJECT_SETTINGS: PluginProjectSettings = {
+  name: 'VEVI EQ Pro',
+  manufacturer: 'Vevi',
+  manufacturerCode: 'Vevi',
+  pluginCode: 'Veq1',
+  formats: ['VST3', 'AU', 'Standalone'],
+};
+
+const JUCE_GIT_TAG = '8.0.4';
+
+const JUCE_MODULES = [
+  'juce_audio_basics', 'juce_audio_devices', 'juce_audio_formats', 'juce_audio_plugin_client',
+  'juce_audio_processors', 'juce_audio_utils', 'juce_core', 'juce_data_structures', 'juce_dsp',
+  'juce_events', 'juce_graphics', 'juce_gui_basics', 'juce_gui_extra',
+];
+
+const JUCER_FORMAT_FLAGS: Record<PluginFormat, string> = {
+  VST3: 'buildVST3',
+  AU: 'buildAU',
+  Standalone: 'buildStandalone',
+};
+
+/**
+ * Problems that would stop the project from building, empty when the settings are usable.
+ */
+export const validateProjectSettings = (settings: PluginProjectSettings): string[] => {
+  const errors: string[] = [];
+  if (!toTargetName(settings.name)) errors.push('Plugin name needs at least one letter');
+  if (!settings.manufacturer.trim()) errors.push('Manufacturer is required');
+  if (!/^[A-Za-z0-9]{4}$/.test(settings.manufacturerCode)) errors.push('Manufacturer code must be exactly 4 letters or digits');
+  else if (!/[A-Z]/.test(settings.manufacturerCode)) errors.push('Manufacturer code needs at least one upper-case letter');
+  if (!/^[A-Za-z0-9]{4}$/.test(settings.pluginCode)) errors.push('Plugin code must be exactly 4 letters or digits');
+  if (settings.formats.length === 0) errors.push('Select at least one format');
+  return errors;
+};
+
+/**
+ * CMake target / folder name: the plugin name without spaces or symbols, starting with a letter.
+ */
+export const toTargetName = (name: string): string => name.replace(/[^A-Za-z0-9]/g, '').replace(/^[0-9]+/, '');
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const escapeCMake = (text: string): string => text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+// Projucer ids are arbitrary 6-character tokens that only need to be unique within the file
+const makeJucerId = (seed: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < seed.length; i++) hash = ((hash * 33) ^ seed.charCodeAt(i)) >>> 0;
+  return hash.toString(36).padStart(6, '0').slice(-6);
+};
+
+const createCMakeLists = (settings: PluginProjectSettings, target: string, sourceFiles: string[]): string => `cmake_minimum_required(VERSION 3.22)
+
+project(${target} VERSION 1.0.0)
+
+set(CMAKE_CXX_STANDARD 17)
+set(CMAKE_CXX_STANDARD_REQUIRED ON)
+
+# Use a JUCE checkout next to this file if there is one, otherwise download it
+if(EXISTS "\${CMAKE_CURRENT_SOURCE_DIR}/JUCE/CMakeLists.txt")
+    add_subdirectory(JUCE)
+else()
+    include(FetchContent)
+    FetchContent_Declare(JUCE
+        GIT_REPOSITORY https://github.com/juce-framework/JUCE.git
+        GIT_TAG ${JUCE_GIT_TAG}
+        GIT_SHALLOW ON)
+    FetchContent_MakeAvailable(JUCE)
+endif()
+
+juce_add_plugin(${target}
+    COMPANY_NAME "${escapeCMake(settings.manufacturer)}"
+    PRODUCT_NAME "${escapeCMake(settings.name)}"
+    PLUGIN_MANUFACTURER_CODE ${settings.manufacturerCode}
+    PLUGIN_CODE ${settings.pluginCode}
+    FORMATS ${settings.formats.join(' ')}
+    IS_SYNTH FALSE
+    NEEDS_MIDI_INPUT FALSE
+    NEEDS_MIDI_OUTPUT FALSE
+    IS_MIDI_EFFECT FALSE
+    EDITOR_WANTS_KEYBOARD_FOCUS FALSE
+    COPY_PLUGIN_AFTER_BUILD FALSE)
+
+juce_generate_juce_header(${target})
+
+target_sources(${target}
+    PRIVATE
+${sourceFiles.filter(file => file.endsWith('.cpp')).map(file => `        Source/${file}`).join('\n')})
+
+target_compile_definitions(${target}
+    PUBLIC
+        JUCE_WEB_BROWSER=0
+        JUCE_USE_CURL=0
+        JUCE_VST3_CAN_REPLACE_VST2=0)
+
+target_link_libraries(${target}
+    PRIVATE
+        juce::juce_audio_utils
+        juce::juce_dsp
+    PUBLIC
+        juce::juce_recommended_config_flags
+        juce::juce_recommended_lto_flags
+        juce::juce_recommended_warning_flags)
+`;
+
+const createJucerFile = (settings: PluginProjectSettings, target: string, sourceFiles: string[]): string => {
+  const name = escapeXml(settings.name);
+  const configurations = `
+        <CONFIGURATIONS>
+          <CONFIGURATION isDebug="1" name="Debug"/>
+          <CONFIGURATION isDebug="0" name="Release"/>
+        </CONFIGURATIONS>`;
+  const exporter = (tag: string, folder: string) =>
+    `    <${tag} targetFolder="Builds/${folder}">${configurations}
+    </${tag}>`;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+
+<JUCERPROJECT id="${makeJucerId(target)}" name="${escapeXml(target)}" projectType="audioplug" useAppConfig="0"
+              addUsingNamespaceToJuceHeader="0" jucerFormatVersion="1" version="1.0.0"
+              companyName="${escapeXml(settings.manufacturer)}" displaySplashScreen="0" cppLanguageStandard="17"
+              pluginName="${name}" pluginDesc="${name}" pluginManufacturer="${escapeXml(settings.manufacturer)}"
+              pluginManufacturerCode="${settings.manufacturerCode}" pluginCode="${settings.pluginCode}"
+              pluginFormats="${settings.formats.map(format => JUCER_FORMAT_FLAGS[format]).join(',')}"
+              pluginCharacteristicsValue="">
+  <MAINGROUP id="${makeJucerId(`${target}/main`)}" name="${escapeXml(target)}">
+    <GROUP id="${makeJucerId(`${target}/Source`)}" name="Source">
+${sourceFiles.map(file => `      <FILE id="${makeJucerId(file)}" name="${file}" compile="${file.endsWith('.cpp') ? 1 : 0}" resource="0" file="Source/${file}"/>`).join('\n')}
+    </GROUP>
+  </MAINGROUP>
+  <MODULES>
+${JUCE_MODULES.map(module => `    <MODULE id="${module}" showAllCode="1" useLocalCopy="0" useGlobalPath="1"/>`).join('\n')}
+  </MODULES>
+  <JUCEOPTIONS JUCE_WEB_BROWSER="0" JUCE_USE_CURL="0" JUCE_VST3_CAN_REPLACE_VST2="0"/>
+  <EXPORTFORMATS>
+${exporter('VS2022', 'VisualStudio2022')}
+${exporter('XCODE_MAC', 'MacOSX')}
+${exporter('LINUX_MAKE', 'LinuxMakefile')}
+  </EXPORTFORMATS>
+</JUCERPROJECT>
+`;
+};
+
+const describeProcessing = ({ mode, firLength }: ProcessingSettings): string => {
+  const label = PROCESSING_MODES.find(m => m.value === mode)?.label ?? mode;
+  return mode === 'zeroLatency' ? label : `${label}, ${firLength}-tap FIR (latency reported to the host)`;
+};
+
+const createReadme = (
+  settings: PluginProjectSettings,
+  target: string,
+  programs: PluginProgram[],
+  processing: ProcessingSettings,
+): string => `# ${settings.name}
+
+Parametric EQ plugin exported from VEVI EQ Pro. It opens with the curve that was on screen
+when it was exported ("${programs[0].name}") and has ${programs.length} factory program${programs.length === 1 ? '' : 's'}.
+
+- Manufacturer: ${settings.manufacturer} (code \`${settings.manufacturerCode}\`)
+- Plugin code: \`${settings.pluginCode}\`
+- Formats: ${settings.formats.join(', ')}
+- Processing mode at start: ${describeProcessing(processing)}; the "Processing Mode" and "FIR Length" parameters switch it
+
+## Build with CMake
+
+Requires CMake 3.22+ and a C++17 compiler. JUCE ${JUCE_GIT_TAG} is downloaded automatically;
+to use your own copy, put it in a \`JUCE\` folder next to \`CMakeLists.txt\`.
+
+\`\`\`
+cmake -B build -DCMAKE_BUILD_TYPE=Release
+cmake --build build --config Release
+\`\`\`
+
+The plugins end up in \`build/${target}_artefacts/Release/\`.${settings.formats.includes('AU') ? ' AU is only built on macOS.' : ''}
+
+## Build with Projucer
+
+1. Open \`${target}.jucer\` in Projucer and check that the global JUCE modules path is set.
+2. Pick your exporter (Visual Studio 2022, Xcode or Linux Makefile) and click "Save and Open in IDE".
+3. Build the Release configuration.
+`;
+
+/**
+ * All files of the project, ready to be zipped.
+ */
+export const createProjectFiles = (
+  settings: PluginProjectSettings,
+  programs: PluginProgram[],
+  processing: ProcessingSettings = DEFAULT_PROCESSING_SETTINGS,
+): ZipEntry[] => {
+  const target = toTargetName(settings.name);
+  const sources = createPluginSources(programs, processing);
+  const sourceFiles = Object.keys(sources);
+
+  return [
+    { path: `${target}/CMakeLists.txt`, content: createCMakeLists(settings, target, sourceFiles) },
+    { path: `${target}/${target}.jucer`, content: createJucerFile(settings, target, sourceFiles) },
+    { path: `${target}/README.md`, content: createReadme(settings, target, fitPluginPrograms(programs), processing) },
+    ...sourceFiles.map(file => ({ path: `${target}/Source/${file}`, content: sources[file] })),
+  ];
+};
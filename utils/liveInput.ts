@@ -0,0 +1,98 @@
+/**
+ * Live microphone / line input via getUserMedia, with an input trim and an on/off stage,
+ * feeding a node (normally AudioEngine.input). Browser processing (echo cancellation, noise suppression,
+ * AGC) is switched off: it would colour exactly what the analyzer is meant to show.
+ */
+
+export interface InputDevice {
+  deviceId: string;
+  label: string;
+}
+
+/**
+ * Audio inputs the browser exposes. Labels are only filled in once the user has granted
+ * microphone access, so unnamed devices get a numbered placeholder.
+ */
+export const listInputDevices = async (): Promise<InputDevice[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'audioinput')
+    .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `Input ${index + 1}` }));
+};
+
+export class LiveInput {
+  private readonly context: AudioContext;
+  private readonly trim: GainNode;
+  private readonly gate: GainNode; // Closed while suspended
+  private stream: MediaStream | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private request = 0; // Bumped by every start/stop, so a slow permission prompt cannot reopen a closed input
+
+  constructor(context: AudioContext, destination: AudioNode) {
+    this.context = context;
+    this.trim = context.createGain();
+    this.gate = context.createGain();
+    this.trim.connect(this.gate);
+    this.gate.connect(destination);
+  }
+
+  get isActive(): boolean {
+    return this.stream !== null;
+  }
+
+  /** Id of the device actually in use (the browser picks one when none was requested). */
+  get deviceId(): string | undefined {
+    return this.stream?.getAudioTracks()[0]?.getSettings().deviceId;
+  }
+
+  /**
+   * Opens the given device (or the default one) and starts feeding it into the chain.
+   * Replaces any input that is already open. Rejects if access is denied.
+   */
+  async start(deviceId?: string): Promise<void> {
+    const request = ++this.request;
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        deviceId: deviceId ? { exact: deviceId } : undefined,
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false,
+      },
+    });
+    if (request !== this.request) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    this.stop();
+    this.stream = stream;
+    this.source = this.context.createMediaStreamSource(stream);
+    this.source.connect(this.trim);
+  }
+
+  setTrim(gainDb: number): void {
+    this.trim.gain.setTargetAtTime(Math.pow(10, gainDb / 20), this.context.currentTime, 0.015);
+  }
+
+  /**
+   * Takes the input out of the chain without closing the device, e.g. so it cannot reach the
+   * speakers along with a file that is playing.
+   */
+  setSuspended(suspended: boolean): void {
+    this.gate.gain.setTargetAtTime(suspended ? 0 : 1, this.context.currentTime, 0.015);
+  }
+
+  stop(): void {
+    this.request++;
+    this.source?.disconnect();
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.source = null;
+    this.stream = null;
+  }
+
+  dispose(): void {
+    this.stop();
+    this.trim.disconnect();
+    this.gate.disconnect();
+  }
+}
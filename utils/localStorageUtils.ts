@@ -1,17 +1,30 @@
 import { EQPreset } from '../types';
+import { PRESET_FORMAT_VERSION, PresetLibrary, migratePresetLibrary, validatePresetList } from './presetSchema';
 
 const PRESETS_STORAGE_KEY = 'vevi-eq1-presets';
 
 /**
  * Loads presets from localStorage.
- * @returns An array of EQPreset or null if no presets are found or parsing fails.
+ * Older library formats are migrated and every preset is validated; presets that cannot be
+ * read are dropped with a console warning instead of breaking the UI.
+ * @returns An array of EQPreset (empty if none are stored), or null if the stored library
+ * cannot be read; it should then not be saved over.
  */
 export const loadPresetsFromLocalStorage = (): EQPreset[] | null => {
   try {
     const jsonString = localStorage.getItem(PRESETS_STORAGE_KEY);
     if (jsonString) {
-      return JSON.parse(jsonString) as EQPreset[];
+      const migrated = migratePresetLibrary(JSON.parse(jsonString));
+      if (!migrated.value) {
+        console.error('Error loading presets from localStorage:', migrated.warnings.join('; '));
+        return null;
+      }
+
+      const { value, warnings } = validatePresetList(migrated.value.presets, 'Stored preset');
+      if (warnings.length) console.warn('Presets repaired while loading:', warnings);
+      return value;
     }
+    return [];
   } catch (error) {
     console.error('Error loading presets from localStorage:', error);
   }
@@ -19,12 +32,20 @@ export const loadPresetsFromLocalStorage = (): EQPreset[] | null => {
 };
 
 /**
- * Saves presets to localStorage.
+ * Saves presets to localStorage, tagged with the current format version.
+ * A library written by a newer version of the app is never overwritten.
  * @param presets The array of EQPreset to save.
  */
 export const savePresetsToLocalStorage = (presets: EQPreset[]): void => {
   try {
-    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+    const existing = localStorage.getItem(PRESETS_STORAGE_KEY);
+    if (existing) {
+      const stored = JSON.parse(existing);
+      if (typeof stored?.version === 'number' && stored.version > PRESET_FORMAT_VERSION) return;
+    }
+
+    const library: PresetLibrary = { version: PRESET_FORMAT_VERSION, presets };
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(library));
   } catch (error) {
     console.error('Error saving presets to localStorage:', error);
   }
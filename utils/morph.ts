@@ -0,0 +1,46 @@
+import { EQBand } from '../types';
+import { GAINLESS_BAND_TYPES } from '../constants';
+import { EQSnapshot } from './history';
+
+const lerp = (a: number, b: number, t: number): number => a + (b - a) * t;
+const logLerp = (a: number, b: number, t: number): number => Math.exp(lerp(Math.log(a), Math.log(b), t));
+
+const morphBand = (a: EQBand, b: EQBand, t: number): EQBand => ({
+  // Discrete settings (type, slope, on/off, colour...) switch over half way
+  ...(t < 0.5 ? a : b),
+  frequency: logLerp(a.frequency, b.frequency, t),
+  gain: lerp(a.gain, b.gain, t),
+  q: lerp(a.q, b.q, t),
+});
+
+/**
+ * A band that exists in one snapshot only fades towards 0 dB.
+ * Bands without gain (cuts, notches) cannot fade, so they drop out half way.
+ */
+const fadeBand = (band: EQBand, weight: number): EQBand | null => {
+  if (GAINLESS_BAND_TYPES.includes(band.type)) return weight >= 0.5 ? band : null;
+  return { ...band, gain: band.gain * weight };
+};
+
+/**
+ * Interpolates two EQ states. Bands are matched by id; frequency moves on a log scale,
+ * gain and Q linearly. t = 0 gives `a`, t = 1 gives `b`.
+ */
+export const interpolateSnapshots = (a: EQSnapshot, b: EQSnapshot, t: number): EQSnapshot => {
+  const bandsB = new Map(b.bands.map(band => [band.id, band]));
+  const idsA = new Set(a.bands.map(band => band.id));
+  const bands: EQBand[] = [];
+
+  for (const band of a.bands) {
+    const other = bandsB.get(band.id);
+    const morphed = other ? morphBand(band, other, t) : fadeBand(band, 1 - t);
+    if (morphed) bands.push(morphed);
+  }
+  for (const band of b.bands) {
+    if (idsA.has(band.id)) continue;
+    const faded = fadeBand(band, t);
+    if (faded) bands.push(faded);
+  }
+
+  return { bands, masterGain: lerp(a.masterGain, b.masterGain, t) };
+};
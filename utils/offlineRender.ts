@@ -0,0 +1,94 @@
+import { EQBand, ProcessingSettings } from '../types';
+import { EQ_PROCESSOR_NAME, CONVOLVER_BLOCK_SIZE } from '../constants';
+import type { EQProcessorOptions } from './eqProcessor.worklet';
+import { designFir, getProcessingLatency } from './firDesign';
+import { partitionFilter } from './convolver';
+import eqProcessorUrl from './eqProcessor.worklet.ts?worker&url';
+import { detectSampleRate } from './wav';
+
+// Progress is reported this many times over the render
+const PROGRESS_STEPS = 50;
+
+export interface RenderResult {
+  channels: Float32Array[];
+  sampleRate: number;
+  peak: number;          // Highest absolute sample value, 1 = 0 dBFS
+  clippedSamples: number; // Samples above 0 dBFS, over all channels
+}
+
+/**
+ * Decodes an audio file at its own sample rate when the header tells it (WAV, FLAC),
+ * otherwise at `fallbackSampleRate`.
+ */
+export const decodeAudioFile = async (data: ArrayBuffer, fallbackSampleRate: number): Promise<AudioBuffer> => {
+  const sampleRate = detectSampleRate(data) ?? fallbackSampleRate;
+  // decodeAudioData detaches the buffer, so it gets a copy
+  return new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(data.slice(0));
+};
+
+/**
+ * Renders `source` through the same worklet and master gain stage as the live engine,
+ * dynamic bands included, in an OfflineAudioContext (faster than real time).
+ * Bands are expected to be the effective bands, like AudioEngine.update.
+ * The latency of the processing mode is rendered past the end and cut off the start, so the
+ * result lines up with the source.
+ */
+export const renderOffline = async (
+  source: AudioBuffer,
+  bands: EQBand[],
+  masterGain: number,
+  processing: ProcessingSettings,
+  onProgress?: (fraction: number) => void,
+): Promise<RenderResult> => {
+  const { numberOfChannels, length, sampleRate, duration } = source;
+  const latency = getProcessingLatency(processing);
+  const context = new OfflineAudioContext(numberOfChannels, length + latency, sampleRate);
+  await context.audioWorklet.addModule(eqProcessorUrl);
+
+  const processorOptions: EQProcessorOptions = {
+    bands,
+    fir: processing.mode === 'zeroLatency' ? undefined : partitionFilter(designFir(bands, sampleRate, processing), CONVOLVER_BLOCK_SIZE),
+  };
+  const processor = new AudioWorkletNode(context, EQ_PROCESSOR_NAME, {
+    outputChannelCount: [numberOfChannels],
+    processorOptions,
+  });
+  const gain = context.createGain();
+  gain.gain.value = Math.pow(10, masterGain / 20);
+
+  const player = context.createBufferSource();
+  player.buffer = source;
+  player.connect(processor);
+  processor.connect(gain);
+  gain.connect(context.destination);
+  player.start();
+
+  if (onProgress) {
+    // OfflineAudioContext has no progress event; suspending at fixed times stands in for one
+    for (let step = 1; step < PROGRESS_STEPS; step++) {
+      const time = duration * step / PROGRESS_STEPS;
+      context.suspend(time).then(() => {
+        onProgress(step / PROGRESS_STEPS);
+        context.resume();
+      }).catch(() => {
+        // Two steps can round to the same render quantum; the later one is rejected
+      });
+    }
+  }
+
+  const rendered = await context.startRendering();
+  onProgress?.(1);
+
+  const channels = Array.from({ length: rendered.numberOfChannels }, (_, channel) => rendered.getChannelData(channel).subarray(latency));
+  let peak = 0;
+  let clippedSamples = 0;
+  for (const data of channels) {
+    for (let i = 0; i < data.length; i++) {
+      const value = Math.abs(data[i]);
+      if (value > peak) peak = value;
+      if (value > 1) clippedSamples++;
+    }
+  }
+
+  return { channels, sampleRate, peak, clippedSamples };
+};
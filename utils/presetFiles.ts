@@ -0,0 +1,34 @@
+import { EQPreset } from '../types';
+import { PRESET_FORMAT_VERSION, ValidationResult, migratePresetLibrary, validatePreset, validatePresetList } from './presetSchema';
+
+// Tag that identifies our preset files (a single preset is a bank of one)
+const PRESET_FILE_FORMAT = 'vevi-eq-presets';
+
+export const serializePresets = (presets: EQPreset[]): string =>
+  JSON.stringify({ format: PRESET_FILE_FORMAT, version: PRESET_FORMAT_VERSION, presets }, null, 2);
+
+/**
+ * Reads a preset file: a versioned bank written by serializePresets, an old bare array
+ * of presets, or a single bare preset object. Every preset is validated and clamped.
+ */
+export const parsePresetFile = (text: string): ValidationResult<EQPreset[]> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { value: null, warnings: ['File is not valid JSON'] };
+  }
+
+  // A single preset exported by hand or by another tool
+  if (typeof data === 'object' && data !== null && !Array.isArray(data) && 'bands' in data) {
+    const { value, warnings } = validatePreset(data);
+    return { value: value ? [value] : null, warnings };
+  }
+
+  const migrated = migratePresetLibrary(data);
+  if (!migrated.value) return { value: null, warnings: migrated.warnings };
+
+  const result = validatePresetList(migrated.value.presets);
+  if (result.value?.length === 0) return { value: null, warnings: [...result.warnings, 'File contains no presets'] };
+  return result;
+};
@@ -0,0 +1,208 @@
+import { EQBand, EQPreset, BandType, DynamicMode } from '../types';
+import {
+  MIN_FREQ, MAX_FREQ, MIN_GAIN, MAX_GAIN, MIN_Q, MAX_Q, MAX_BANDS, CUT_SLOPES, DEFAULT_SLOPE,
+  DEFAULT_DYNAMICS, THRESHOLD_RANGE, RATIO_RANGE, ATTACK_RANGE, RELEASE_RANGE, DYNAMIC_RANGE_MAX, MASTER_GAIN_RANGE,
+} from '../constants';
+import { getBandColor } from './bandUtils';
+
+/**
+ * Schema validation for presets coming from localStorage or files.
+ * Nothing read from outside is trusted: every field is type-checked, clamped to the limits in
+ * constants.ts and defaulted when missing, so older files pick up fields added later.
+ * Problems are collected as human-readable warnings instead of throwing.
+ */
+
+export const PRESET_FORMAT_VERSION = 2;
+
+export interface ValidationResult<T> {
+  value: T | null;
+  warnings: string[];
+}
+
+type RawObject = Record<string, unknown>;
+
+export const createPresetId = (): string => Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readNumber = (
+  raw: RawObject, key: string, min: number, max: number, fallback: number, where: string, warnings: string[],
+): number => {
+  const value = raw[key];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    warnings.push(`${where}: invalid ${key}, using ${fallback}`);
+    return fallback;
+  }
+  if (value < min || value > max) {
+    const clamped = Math.max(min, Math.min(max, value));
+    warnings.push(`${where}: ${key} ${value} out of range, clamped to ${clamped}`);
+    return clamped;
+  }
+  return value;
+};
+
+const readBoolean = (raw: RawObject, key: string, fallback: boolean): boolean =>
+  typeof raw[key] === 'boolean' ? raw[key] as boolean : fallback;
+
+const readEnum = <T extends string>(
+  raw: RawObject, key: string, values: T[], fallback: T, where: string, warnings: string[],
+): T => {
+  const value = raw[key];
+  if (value === undefined) return fallback;
+  if (!values.includes(value as T)) {
+    warnings.push(`${where}: unknown ${key} "${String(value)}", using ${fallback}`);
+    return fallback;
+  }
+  return value as T;
+};
+
+export const validateBand = (raw: unknown, fallbackId: number, where: string): ValidationResult<EQBand> => {
+  const warnings: string[] = [];
+  if (!isObject(raw)) return { value: null, warnings: [`${where}: not a band object, skipped`] };
+
+  const id = Number.isInteger(raw.id) && (raw.id as number) > 0 ? raw.id as number : fallbackId;
+  const type = readEnum(raw, 'type', Object.values(BandType), BandType.PEAK, where, warnings);
+  const color = typeof raw.color === 'string' && /^#[0-9a-f]{6}$/i.test(raw.color) ? raw.color : getBandColor(id);
+
+  const band: EQBand = {
+    id,
+    type,
+    frequency: readNumber(raw, 'frequency', MIN_FREQ, MAX_FREQ, 1000, where, warnings),
+    gain: readNumber(raw, 'gain', MIN_GAIN, MAX_GAIN, 0, where, warnings),
+    q: readNumber(raw, 'q', MIN_Q, MAX_Q, 1, where, warnings),
+    enabled: readBoolean(raw, 'enabled', true),
+    color,
+    isDynamic: readBoolean(raw, 'isDynamic', false),
+    dynamicRange: readNumber(raw, 'dynamicRange', 0, DYNAMIC_RANGE_MAX, 6, where, warnings),
+    threshold: readNumber(raw, 'threshold', THRESHOLD_RANGE.min, THRESHOLD_RANGE.max, DEFAULT_DYNAMICS.threshold, where, warnings),
+    ratio: readNumber(raw, 'ratio', RATIO_RANGE.min, RATIO_RANGE.max, DEFAULT_DYNAMICS.ratio, where, warnings),
+    attack: readNumber(raw, 'attack', ATTACK_RANGE.min, ATTACK_RANGE.max, DEFAULT_DYNAMICS.attack, where, warnings),
+    release: readNumber(raw, 'release', RELEASE_RANGE.min, RELEASE_RANGE.max, DEFAULT_DYNAMICS.release, where, warnings),
+    dynamicMode: readEnum(raw, 'dynamicMode', Object.values(DynamicMode), DEFAULT_DYNAMICS.dynamicMode, where, warnings),
+    solo: readBoolean(raw, 'solo', false),
+  };
+
+  if (raw.slope !== undefined) {
+    if (CUT_SLOPES.includes(raw.slope as number)) {
+      band.slope = raw.slope as number;
+    } else {
+      warnings.push(`${where}: unsupported slope ${String(raw.slope)}, using ${DEFAULT_SLOPE} dB/oct`);
+      band.slope = DEFAULT_SLOPE;
+    }
+  }
+
+  if (raw.locked === true) band.locked = true;
+
+  return { value: band, warnings };
+};
+
+export const validatePreset = (raw: unknown, where: string = 'Preset'): ValidationResult<EQPreset> => {
+  if (!isObject(raw)) return { value: null, warnings: [`${where}: not a preset object, skipped`] };
+
+  const name = typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Untitled';
+  const label = `${where} "${name}"`;
+  if (!Array.isArray(raw.bands)) return { value: null, warnings: [`${label}: has no band list, skipped`] };
+
+  const warnings: string[] = [];
+  let rawBands = raw.bands;
+  if (rawBands.length > MAX_BANDS) {
+    warnings.push(`${label}: ${rawBands.length} bands, only the first ${MAX_BANDS} were kept`);
+    rawBands = rawBands.slice(0, MAX_BANDS);
+  }
+
+  const bands: EQBand[] = [];
+  const usedIds = new Set<number>();
+  rawBands.forEach((rawBand, index) => {
+    const result = validateBand(rawBand, index + 1, `${label} band ${index + 1}`);
+    warnings.push(...result.warnings);
+    if (!result.value) return;
+
+    // Ids must be unique for selection and history to work
+    let band = result.value;
+    if (usedIds.has(band.id)) {
+      let id = 1;
+      while (usedIds.has(id)) id++;
+      band = { ...band, id };
+    }
+    usedIds.add(band.id);
+    bands.push(band);
+  });
+
+  const preset: EQPreset = {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createPresetId(),
+    name,
+    bands,
+    masterGain: readNumber(raw, 'masterGain', MASTER_GAIN_RANGE.min, MASTER_GAIN_RANGE.max, 0, label, warnings),
+  };
+
+  // Library metadata is optional and only kept when well-formed
+  if (typeof raw.category === 'string' && raw.category.trim()) preset.category = raw.category.trim();
+  if (Array.isArray(raw.tags)) {
+    const tags = raw.tags.filter((tag): tag is string => typeof tag === 'string').map(tag => tag.trim()).filter(Boolean);
+    if (tags.length !== raw.tags.length) warnings.push(`${label}: invalid tags dropped`);
+    if (tags.length) preset.tags = Array.from(new Set(tags));
+  }
+  if (raw.favorite === true) preset.favorite = true;
+  if (typeof raw.createdAt === 'number' && Number.isFinite(raw.createdAt)) preset.createdAt = raw.createdAt;
+  if (typeof raw.updatedAt === 'number' && Number.isFinite(raw.updatedAt)) preset.updatedAt = raw.updatedAt;
+
+  return { value: preset, warnings };
+};
+
+/**
+ * Validates a list of presets, dropping the ones that cannot be read.
+ */
+export const validatePresetList = (raw: unknown[], where: string = 'Preset'): ValidationResult<EQPreset[]> => {
+  const warnings: string[] = [];
+  const presets: EQPreset[] = [];
+
+  raw.forEach((item, index) => {
+    const result = validatePreset(item, `${where} ${index + 1}`);
+    warnings.push(...result.warnings);
+    if (result.value) presets.push(result.value);
+  });
+
+  return { value: presets, warnings };
+};
+
+// --- STORAGE MIGRATIONS ---
+
+export interface PresetLibrary {
+  version: number;
+  presets: unknown[];
+}
+
+/**
+ * Migrations keyed by the version they upgrade *from*. Each returns the library at version + 1.
+ * Field-level additions to EQBand need no migration: validation fills in defaults.
+ */
+const MIGRATIONS: Record<number, (data: unknown) => PresetLibrary> = {
+  // v1: the library was stored as a bare EQPreset[] without a version
+  1: (data) => ({ version: 2, presets: Array.isArray(data) ? data : [] }),
+};
+
+/**
+ * Brings stored data of any known version up to PRESET_FORMAT_VERSION.
+ */
+export const migratePresetLibrary = (data: unknown): ValidationResult<PresetLibrary> => {
+  let version = Array.isArray(data) ? 1 : isObject(data) && typeof data.version === 'number' ? data.version : 0;
+
+  if (version === 0) return { value: null, warnings: ['Preset library has an unknown format'] };
+  if (version > PRESET_FORMAT_VERSION) {
+    return { value: null, warnings: [`Preset library version ${version} is newer than this app supports (${PRESET_FORMAT_VERSION})`] };
+  }
+
+  let current: unknown = data;
+  while (version < PRESET_FORMAT_VERSION) {
+    current = MIGRATIONS[version](current);
+    version++;
+  }
+
+  const library = current as RawObject;
+  return {
+    value: { version, presets: Array.isArray(library.presets) ? library.presets : [] },
+    warnings: [],
+  };
+};
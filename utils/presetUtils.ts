@@ -0,0 +1,90 @@
+import { EQBand, EQPreset } from '../types';
+import { EQSnapshot } from './history';
+import { createPresetId } from './presetSchema';
+
+export type PresetSortOrder = 'name' | 'category' | 'updated' | 'created';
+
+export const PRESET_SORT_LABELS: Record<PresetSortOrder, string> = {
+  name: 'Name',
+  category: 'Category',
+  updated: 'Last modified',
+  created: 'Date created',
+};
+
+// Differences below this are display rounding, not edits
+const EPSILON = 1e-6;
+
+const valuesMatch = (a: unknown, b: unknown): boolean =>
+  typeof a === 'number' && typeof b === 'number' ? Math.abs(a - b) < EPSILON : a === b;
+
+const bandsMatch = (a: EQBand, b: EQBand): boolean => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof EQBand)[]);
+  // Colour is cosmetic and solo is a listening aid, neither makes a preset "modified"
+  keys.delete('color');
+  keys.delete('solo');
+  return Array.from(keys).every(key => valuesMatch(a[key], b[key]));
+};
+
+/**
+ * True when two EQ states would sound the same, ignoring band order.
+ */
+export const snapshotsMatch = (a: EQSnapshot, b: EQSnapshot): boolean => {
+  if (!valuesMatch(a.masterGain, b.masterGain) || a.bands.length !== b.bands.length) return false;
+  const bandsB = new Map(b.bands.map(band => [band.id, band]));
+  return a.bands.every(band => {
+    const other = bandsB.get(band.id);
+    return other !== undefined && bandsMatch(band, other);
+  });
+};
+
+/**
+ * Splits comma-separated user input into unique, trimmed tags.
+ */
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map(tag => tag.trim()).filter(Boolean)));
+
+/**
+ * Case-insensitive match of every search word against name, category and tags.
+ */
+export const matchesPresetSearch = (preset: EQPreset, query: string): boolean => {
+  const haystack = [preset.name, preset.category ?? '', ...(preset.tags ?? [])].join(' ').toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+};
+
+/**
+ * Sorts a copy of the list. Favourites always come first.
+ */
+export const sortPresets = (presets: EQPreset[], order: PresetSortOrder): EQPreset[] => {
+  const byName = (a: EQPreset, b: EQPreset) => a.name.localeCompare(b.name);
+  const compare: Record<PresetSortOrder, (a: EQPreset, b: EQPreset) => number> = {
+    name: byName,
+    // Uncategorised presets go last
+    category: (a, b) => Number(!a.category) - Number(!b.category) || (a.category ?? '').localeCompare(b.category ?? '') || byName(a, b),
+    updated: (a, b) => (b.updatedAt ?? b.createdAt ?? 0) - (a.updatedAt ?? a.createdAt ?? 0) || byName(a, b),
+    created: (a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0) || byName(a, b),
+  };
+  return [...presets].sort((a, b) => Number(!!b.favorite) - Number(!!a.favorite) || compare[order](a, b));
+};
+
+/**
+ * First name of the form "<name>", "<name> 2", "<name> 3"... not used by another preset.
+ */
+export const getUniquePresetName = (name: string, presets: EQPreset[]): string => {
+  const taken = new Set(presets.map(preset => preset.name));
+  if (!taken.has(name)) return name;
+  let index = 2;
+  while (taken.has(`${name} ${index}`)) index++;
+  return `${name} ${index}`;
+};
+
+export const duplicatePreset = (preset: EQPreset, presets: EQPreset[]): EQPreset => {
+  const now = Date.now();
+  return {
+    ...preset,
+    id: createPresetId(),
+    name: getUniquePresetName(`${preset.name} copy`, presets),
+    favorite: undefined,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
@@ -0,0 +1,162 @@
+import { AnalyzerSettings, FrequencyPoint } from '../types';
+import { DEFAULT_ANALYZER_SETTINGS } from '../constants';
+import { createWindow, fft } from './fft';
+
+// Level reported where there is no signal at all, dBFS
+const SILENCE_DB = -200;
+
+const powerToDb = (power: number): number => (power > 0 ? Math.max(SILENCE_DB, 10 * Math.log10(power)) : SILENCE_DB);
+
+/**
+ * Windowed FFT of `samples` into `power` (one value per bin up to Nyquist), calibrated so a
+ * full-scale sine centred on a bin reads 1 (0 dBFS) whatever the window: each bin is divided
+ * by the window's coherent gain.
+ */
+export const computePowerSpectrum = (
+  samples: Float32Array,
+  window: Float64Array,
+  re: Float64Array,
+  im: Float64Array,
+  power: Float64Array,
+): void => {
+  let windowSum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    re[i] = samples[i] * window[i];
+    im[i] = 0;
+    windowSum += window[i];
+  }
+  fft(re, im);
+
+  const scale = 2 / windowSum;
+  for (let k = 0; k < power.length; k++) {
+    power[k] = (re[k] * re[k] + im[k] * im[k]) * scale * scale;
+  }
+};
+
+/**
+ * Maps linearly spaced bin powers onto `numPoints` log-spaced frequencies (dB).
+ *
+ * With `octaveSmoothing` N > 0 every point is the mean power over the 1/N octave centred on
+ * it. With 0 (off) a point covering several bins shows the loudest one, so narrow peaks in
+ * the highs are not averaged away. Where a point spans less than a bin, neighbouring bins
+ * are interpolated.
+ */
+export const mapPowerToLogAxis = (
+  power: Float64Array,
+  binWidth: number,
+  minFreq: number,
+  maxFreq: number,
+  numPoints: number,
+  octaveSmoothing: number,
+): FrequencyPoint[] => {
+  const points: FrequencyPoint[] = [];
+  const logMin = Math.log10(minFreq);
+  const logMax = Math.log10(maxFreq);
+  const step = (logMax - logMin) / (numPoints - 1);
+  const lastBin = power.length - 1;
+
+  // Running sum so a band average costs the same whatever its width.
+  // Bin k covers [k - 0.5, k + 0.5] in bin units.
+  const cumulative = new Float64Array(power.length + 1);
+  for (let k = 0; k < power.length; k++) cumulative[k + 1] = cumulative[k] + power[k];
+  const integral = (position: number): number => {
+    const edge = Math.max(0, Math.min(power.length, position + 0.5));
+    const bin = Math.floor(edge);
+    return cumulative[bin] + (bin < power.length ? (edge - bin) * power[bin] : 0);
+  };
+  const interpolate = (position: number): number => {
+    const clamped = Math.max(0, Math.min(lastBin, position));
+    const bin = Math.min(lastBin - 1, Math.floor(clamped));
+    return power[bin] + (power[bin + 1] - power[bin]) * (clamped - bin);
+  };
+
+  const halfBand = octaveSmoothing > 0 ? Math.pow(2, 1 / (2 * octaveSmoothing)) : 1;
+
+  for (let i = 0; i < numPoints; i++) {
+    const frequency = Math.pow(10, logMin + step * i);
+    let level: number;
+
+    if (octaveSmoothing > 0) {
+      const low = frequency / halfBand / binWidth;
+      const high = Math.min(lastBin, frequency * halfBand / binWidth);
+      level = high - low >= 1
+        ? (integral(high) - integral(low)) / (high - low)
+        : interpolate(frequency / binWidth);
+    } else {
+      const low = Math.max(0, Math.pow(10, logMin + step * (i - 0.5)) / binWidth);
+      const high = Math.min(lastBin, Math.pow(10, logMin + step * (i + 0.5)) / binWidth);
+      if (Math.floor(high) > Math.ceil(low)) {
+        level = 0;
+        for (let bin = Math.ceil(low); bin <= Math.floor(high); bin++) level = Math.max(level, power[bin]);
+      } else {
+        level = interpolate(frequency / binWidth);
+      }
+    }
+
+    points.push({ frequency, gain: powerToDb(level) });
+  }
+  return points;
+};
+
+/**
+ * Real-time analyzer on top of an AnalyserNode, which is only used as a source of time-domain
+ * samples: the window, FFT, averaging and smoothing are done here, since the node's own
+ * frequency data has a fixed Blackman window and no calibration.
+ *
+ * Levels are dBFS, a full-scale sine reading 0 dB. Averaging is exponential in power with the
+ * configured time constant, independent of how often getSpectrum is called.
+ */
+export class SpectrumAnalyzer {
+  private readonly analyser: AnalyserNode;
+  private settings: AnalyzerSettings = DEFAULT_ANALYZER_SETTINGS;
+  private window = new Float64Array(0);
+  private samples = new Float32Array(0);
+  private re = new Float64Array(0);
+  private im = new Float64Array(0);
+  private power = new Float64Array(0);
+  private averaged: Float64Array | null = null;
+  private lastUpdate = 0; // performance.now() of the last frame that went into the average
+
+  constructor(analyser: AnalyserNode, settings: AnalyzerSettings = DEFAULT_ANALYZER_SETTINGS) {
+    this.analyser = analyser;
+    this.configure(settings);
+  }
+
+  /** Applies new settings. A new FFT size or window restarts the average. */
+  configure(settings: AnalyzerSettings): void {
+    const previous = this.settings;
+    this.settings = settings;
+    if (this.window.length === settings.fftSize && previous.window === settings.window) return;
+
+    this.analyser.fftSize = settings.fftSize;
+    this.window = createWindow(settings.window, settings.fftSize);
+    this.samples = new Float32Array(settings.fftSize);
+    this.re = new Float64Array(settings.fftSize);
+    this.im = new Float64Array(settings.fftSize);
+    this.power = new Float64Array(settings.fftSize / 2 + 1);
+    this.averaged = null;
+  }
+
+  /**
+   * Analyses the latest `fftSize` samples and returns the averaged, smoothed level (dBFS) at
+   * `numPoints` log-spaced frequencies.
+   */
+  getSpectrum(minFreq: number, maxFreq: number, numPoints: number): FrequencyPoint[] {
+    this.analyser.getFloatTimeDomainData(this.samples);
+    computePowerSpectrum(this.samples, this.window, this.re, this.im, this.power);
+
+    const now = performance.now();
+    const elapsed = Math.min(1, (now - this.lastUpdate) / 1000);
+    this.lastUpdate = now;
+
+    if (!this.averaged || this.settings.averagingTime <= 0) {
+      this.averaged = Float64Array.from(this.power);
+    } else {
+      const alpha = 1 - Math.exp(-elapsed / this.settings.averagingTime);
+      for (let k = 0; k < this.averaged.length; k++) this.averaged[k] += (this.power[k] - this.averaged[k]) * alpha;
+    }
+
+    const binWidth = this.analyser.context.sampleRate / this.settings.fftSize;
+    return mapPowerToLogAxis(this.averaged, binWidth, minFreq, maxFreq, numPoints, this.settings.octaveSmoothing);
+  }
+}
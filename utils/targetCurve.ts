@@ -0,0 +1,53 @@
+import { FrequencyPoint } from '../types';
+import { MIN_FREQ, MAX_FREQ } from '../constants';
+
+/**
+ * Target response curves imported as frequency/dB pairs: AutoEQ-style CSV, REW exports and
+ * plain text. Each line starting with two numbers is a point; anything else (headers, `*`
+ * comments, extra columns) is ignored. Fields may be separated by commas, semicolons, tabs
+ * or spaces.
+ */
+export const parseTargetCurve = (text: string): FrequencyPoint[] => {
+  const points: FrequencyPoint[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const fields = line.trim().split(/[\s,;]+/);
+    const frequency = Number(fields[0]);
+    const gain = Number(fields[1]);
+    if (fields.length < 2 || !Number.isFinite(frequency) || !Number.isFinite(gain) || frequency <= 0) continue;
+    points.push({ frequency, gain });
+  }
+
+  // Sorted by frequency, first point wins where a frequency repeats
+  points.sort((a, b) => a.frequency - b.frequency);
+  return points.filter((point, i) => i === 0 || point.frequency !== points[i - 1].frequency);
+};
+
+/**
+ * Samples a curve at `numPoints` log-spaced frequencies from MIN_FREQ to MAX_FREQ (the grid
+ * the fitter works on), interpolating on a log frequency axis and holding the end values
+ * beyond the curve's range. With `normalizeAt` the curve is shifted to read 0 dB there.
+ */
+export const resampleTargetCurve = (points: FrequencyPoint[], numPoints: number, normalizeAt?: number): FrequencyPoint[] => {
+  if (points.length === 0) return [];
+
+  const valueAt = (frequency: number): number => {
+    if (frequency <= points[0].frequency) return points[0].gain;
+    const last = points[points.length - 1];
+    if (frequency >= last.frequency) return last.gain;
+
+    let high = 1;
+    while (points[high].frequency < frequency) high++;
+    const a = points[high - 1];
+    const b = points[high];
+    const t = Math.log(frequency / a.frequency) / Math.log(b.frequency / a.frequency);
+    return a.gain + (b.gain - a.gain) * t;
+  };
+
+  const offset = normalizeAt !== undefined ? valueAt(normalizeAt) : 0;
+  const logMin = Math.log10(MIN_FREQ);
+  const logMax = Math.log10(MAX_FREQ);
+  return Array.from({ length: numPoints }, (_, i) => {
+    const frequency = Math.pow(10, logMin + (logMax - logMin) * (i / (numPoints - 1)));
+    return { frequency, gain: valueAt(frequency) - offset };
+  });
+};
@@ -1,6 +1,68 @@
 
 
-export const PLUGIN_PROCESSOR_H = `/*
+import { EQBand, BandType, DynamicMode, ProcessingSettings } from '../types';
+import {
+  CUT_SLOPES, DEFAULT_SLOPE, DEFAULT_DYNAMICS,
+  THRESHOLD_RANGE, RATIO_RANGE, ATTACK_RANGE, RELEASE_RANGE, DYNAMIC_RANGE_MAX,
+  PROCESSING_MODES, FIR_LENGTHS, NATURAL_PHASE_LATENCY, DEFAULT_PROCESSING_SETTINGS,
+} from '../constants';
+import { getBandColor } from './bandUtils';
+
+/**
+ * A curve baked into the plugin as a factory program. The first one is also the
+ * default state of the parameters, so the plugin opens with it.
+ */
+export interface PluginProgram {
+  name: string;
+  bands: EQBand[];
+  masterGain: number;
+}
+
+// Must follow the order of bandTypeNames in the generated processor
+const BAND_TYPE_ORDER = Object.values(BandType);
+
+const toCppFloat = (value: number): string => {
+  const text = String(Number(value.toFixed(4)));
+  return `${text.includes('.') ? text : `${text}.0`}f`;
+};
+
+const toCppString = (text: string): string =>
+  `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/[\x00-\x1f]/g, ' ')}"`;
+
+// "#rrggbb" -> opaque ARGB literal for juce::Colour
+const toCppColour = (color: string): string =>
+  /^#[0-9a-f]{6}$/i.test(color) ? `0xff${color.slice(1).toLowerCase()}` : '0xff3b82f6';
+
+const formatDynamics = (band: Partial<EQBand>): string => {
+  const dynamicMode = (band.dynamicMode ?? DEFAULT_DYNAMICS.dynamicMode) === DynamicMode.BELOW ? 1 : 0;
+  return [
+    !!band.isDynamic,
+    toCppFloat(band.dynamicRange ?? 6),
+    toCppFloat(band.threshold ?? DEFAULT_DYNAMICS.threshold),
+    toCppFloat(band.ratio ?? DEFAULT_DYNAMICS.ratio),
+    toCppFloat(band.attack ?? DEFAULT_DYNAMICS.attack),
+    toCppFloat(band.release ?? DEFAULT_DYNAMICS.release),
+    dynamicMode,
+    !!band.solo,
+  ].join(', ');
+};
+
+const formatBandSettings = (band: EQBand | undefined): string => {
+  // Bands a program does not use stay off at neutral settings
+  if (!band) return `{ 1000.0f, 0.0f, 1.0f, 0, 1, false, ${formatDynamics({})} }`;
+  const slopeIndex = Math.max(0, CUT_SLOPES.indexOf(band.slope ?? DEFAULT_SLOPE));
+  return `{ ${toCppFloat(band.frequency)}, ${toCppFloat(band.gain)}, ${toCppFloat(band.q)}, ${BAND_TYPE_ORDER.indexOf(band.type)}, ${slopeIndex}, ${band.enabled}, ${formatDynamics(band)} }`;
+};
+
+const formatProgram = (program: PluginProgram, numBands: number): string => {
+  const bands = Array.from({ length: numBands }, (_, i) => `        ${formatBandSettings(program.bands[i])}`);
+  return `    { ${toCppString(program.name)}, ${toCppFloat(program.masterGain)}, {\n${bands.join(',\n')}\n    } }`;
+};
+
+/**
+ * The processor is generated for a given band count, so the plugin has as many bands as the UI.
+ */
+export const createPluginProcessorH = (numBands: number): string => `/*
   ==============================================================================
     PluginProcessor.h
     VEVI EQ PRO - Logic Header
@@ -10,7 +72,7 @@ export const PLUGIN_PROCESSOR_H = `/*
 #pragma once
 #include <JuceHeader.h>
 
-class VeviEqProAudioProcessor  : public juce::AudioProcessor
+class VeviEqProAudioProcessor  : public juce::AudioProcessor, private juce::Timer
 {
 public:
     VeviEqProAudioProcessor();
@@ -41,24 +103,135 @@ public:
 
     // --- VEVI EQ SPECIFIC ---
     juce::AudioProcessorValueTreeState apvts;
-    static const int NUM_BANDS = 7;
+    static const int NUM_BANDS = ${numBands};
+    static const int MAX_SECTIONS = 4; // 48 dB/oct cut = 8th order = 4 biquads
+    static const int SUB_BLOCK = 32;   // Smoothed parameters and dynamics update every SUB_BLOCK samples
 
-    using FilterBand = juce::dsp::IIR::Filter<float>;
-    FilterBand* getLeftFilter(int bandIndex) { return leftFilters[bandIndex].get(); }
+    // Cascade of biquads making up one band (cuts use several sections).
+    // Each section is { b0, b1, b2, a0, a1, a2 } with a0 normalised to 1.
+    struct BandDesign
+    {
+        std::array<double, 6> sections[MAX_SECTIONS];
+        int numSections = 0;
+
+        // Complex response and linear magnitude of all sections at the given frequency
+        std::complex<double> getResponse (double frequency, double sampleRate) const;
+        double getMagnitudeForFrequency (double frequency, double sampleRate) const { return std::abs (getResponse (frequency, sampleRate)); }
+    };
+
+    // Allocation-free, so the audio thread can redesign bands while parameters glide
+    static BandDesign designBand (int type, double sampleRate, float freq, float q, float gainDb, int slopeDb);
+
+    // "Band3Gain" etc.
+    static juce::String paramId (int bandIndex, const juce::String& name) { return "Band" + juce::String (bandIndex + 1) + name; }
+    static int getSlopeDb (int slopeIndex);
+    // Low/High-Cut, Notch and Band-Pass ignore the gain parameter
+    static bool isGainless (int type) { return type >= 3 && type <= 6; }
+
+    // Current dynamic gain change of a band in dB (0 when static); safe to call from the editor
+    float getGainReduction (int bandIndex) const { return gainReduction[bandIndex].load(); }
+
+    // Processing modes, as in the web app: 0 = zero latency (the biquads), 1 = natural phase and
+    // 2 = linear phase (an FIR designed from the bands, run by juce::dsp::Convolution)
+    static juce::StringArray getProcessingModeNames() { return { ${PROCESSING_MODES.map(mode => `"${mode.label}"`).join(', ')} }; }
+    int getProcessingMode() const { return (int) modeParameter->load(); }
+    int getFirLength() const;
+    static int getLatencyForMode (int mode, int firLength);
+
+    // Band colours from the web app (ARGB)
+    static const juce::uint32 bandColours[NUM_BANDS];
+
+    // Settings of one band in a factory program
+    struct BandSettings
+    {
+        float freq, gain, q;
+        int type, slopeIndex;
+        bool enabled;
+        bool dynamic;
+        float range, threshold, ratio, attack, release;
+        int dynamicMode; // 0 = Above (compress), 1 = Below (expand)
+        bool solo;
+    };
+
+    struct Program
+    {
+        const char* name;
+        float masterGain;
+        BandSettings bands[NUM_BANDS];
+    };
 
 private:
     juce::AudioProcessorValueTreeState::ParameterLayout createParameterLayout();
-    
-    std::vector<std::unique_ptr<FilterBand>> leftFilters;
-    std::vector<std::unique_ptr<FilterBand>> rightFilters;
 
-    void updateFilters();
+    // FIR modes: designed on the message thread whenever the settings change
+    void timerCallback() override;
+    void updateFir();
+    juce::AudioBuffer<float> designFir (int mode, int firLength, double sampleRate) const;
+    juce::dsp::Convolution convolution;
+    std::vector<float> firDesignedFor; // Mode, length and band parameters of the loaded FIR
+    int activeMode = 0;                // Audio thread: mode of the previous block
+
+    // Audio-thread state of one band
+    struct BandState
+    {
+        juce::SmoothedValue<float, juce::ValueSmoothingTypes::Multiplicative> freq { 1000.0f }, q { 1.0f };
+        juce::SmoothedValue<float> gain, mix; // mix crossfades in and out when the band is toggled or soloed
+        int type = 0, slopeDb = 12;
+        bool needsDesign = true;
+        BandDesign design;
+        double z[2][MAX_SECTIONS][2] = {}; // Transposed direct form II state per channel and section
+
+        // Dynamic EQ: band-passed input -> stereo-linked peak envelope -> gain computer
+        bool dynamic = false, below = false;
+        float threshold = -30.0f, ratio = 2.0f, range = 6.0f;
+        double attackCoeff = 0.0, releaseCoeff = 0.0;
+        double detectorZ[2][2] = {};
+        double envelope = 0.0;
+        float reduction = 0.0f, appliedReduction = 0.0f;
+
+        void clearFilterState() { std::fill (&z[0][0][0], &z[0][0][0] + 2 * MAX_SECTIONS * 2, 0.0); }
+        void clearDetector() { std::fill (&detectorZ[0][0], &detectorZ[0][0] + 4, 0.0); envelope = 0.0; reduction = 0.0f; }
+    };
+
+    BandState bands[NUM_BANDS];
+    juce::SmoothedValue<float> outputGain;
+    std::atomic<float> gainReduction[NUM_BANDS] {};
+
+    // Parameters of one band. Their values are read through pointers looked up once in the
+    // constructor, so the audio thread never builds parameter ids or searches for them.
+    enum BandParameter { bandFreq, bandGain, bandQ, bandType, bandSlope, bandBypass, bandSolo, bandDynamic,
+                         bandDynMode, bandRange, bandThreshold, bandRatio, bandAttack, bandRelease, numBandParameters };
+    std::atomic<float>* bandParameters[NUM_BANDS][numBandParameters] {};
+    std::atomic<float>* masterGainParameter = nullptr;
+    std::atomic<float>* modeParameter = nullptr;
+    std::atomic<float>* firLengthParameter = nullptr;
+
+    float getBandParameter (int bandIndex, BandParameter parameter) const { return bandParameters[bandIndex][parameter]->load(); }
+    void updateTargets (bool anySolo);
+    void detect (int bandIndex, const float* const* input, int numChannels, int numSamples);
+    void advance (BandState& band, int numSamples);
+    void processBand (BandState& band, float* data, int channel, int numSamples);
+
+    int currentProgram = 0;
 
     JUCE_DECLARE_NON_COPYABLE_WITH_LEAK_DETECTOR (VeviEqProAudioProcessor)
 };
 `;
 
-export const PLUGIN_PROCESSOR_CPP = `/*
+/**
+ * Bakes the given curves into the processor: the first program sets the parameter defaults,
+ * and all of them are exposed to the host as factory programs.
+ *
+ * Processing mirrors the web worklet: parameters glide over 15 ms, bands are redesigned every
+ * 32 samples, and dynamic bands follow a band-passed copy of the input. The natural- and
+ * linear-phase modes design the same FIR as the web app and report its latency and tail to the
+ * host; `processing` sets the mode the plugin starts in.
+ */
+export const createPluginProcessorCpp = (
+  numBands: number,
+  programs: PluginProgram[],
+  processing: ProcessingSettings = DEFAULT_PROCESSING_SETTINGS,
+): string => `/*
   ==============================================================================
     PluginProcessor.cpp
     VEVI EQ PRO - Logic Implementation
@@ -76,102 +249,486 @@ VeviEqProAudioProcessor::VeviEqProAudioProcessor()
 #endif
        apvts (*this, nullptr, "Parameters", createParameterLayout())
 {
-    for (int i = 0; i < NUM_BANDS; ++i) {
-        leftFilters.push_back(std::make_unique<FilterBand>());
-        rightFilters.push_back(std::make_unique<FilterBand>());
-    }
+    // Same order as BandParameter
+    static const char* const bandParameterNames[] = { "Freq", "Gain", "Q", "Type", "Slope", "Bypass", "Solo", "Dynamic",
+                                                      "DynMode", "Range", "Threshold", "Ratio", "Attack", "Release" };
+    static_assert (std::size (bandParameterNames) == numBandParameters, "One name per band parameter");
+
+    for (int i = 0; i < NUM_BANDS; ++i)
+        for (int p = 0; p < numBandParameters; ++p)
+            bandParameters[i][p] = apvts.getRawParameterValue (paramId (i, bandParameterNames[p]));
+
+    masterGainParameter = apvts.getRawParameterValue ("MasterGain");
+    modeParameter = apvts.getRawParameterValue ("Mode");
+    firLengthParameter = apvts.getRawParameterValue ("FirLength");
+
+    startTimerHz (20);
 }
 
-VeviEqProAudioProcessor::~VeviEqProAudioProcessor() {}
+VeviEqProAudioProcessor::~VeviEqProAudioProcessor()
+{
+    stopTimer();
+}
+
+// Must follow the order of BandType in the web app
+static const juce::StringArray bandTypeNames { "Peak", "LowShelf", "HighShelf", "LowCut", "HighCut", "Notch", "BandPass", "TiltShelf" };
+static const int cutSlopes[] = { ${CUT_SLOPES.join(', ')} };
+static const int firLengths[] = { ${FIR_LENGTHS.join(', ')} };
+static const int naturalPhaseLatency = ${NATURAL_PHASE_LATENCY}; // Samples
+static const double smoothingSeconds = 0.015;
+
+const juce::uint32 VeviEqProAudioProcessor::bandColours[NUM_BANDS] = {
+    ${Array.from({ length: numBands }, (_, i) => toCppColour(programs[0].bands[i]?.color ?? getBandColor(i + 1))).join(', ')}
+};
+
+// Curves exported from the web app; the first one is the default state
+static const VeviEqProAudioProcessor::Program factoryPrograms[] = {
+${programs.map(program => formatProgram(program, numBands)).join(',\n')}
+};
+static const int numFactoryPrograms = (int) (sizeof (factoryPrograms) / sizeof (factoryPrograms[0]));
+
+int VeviEqProAudioProcessor::getSlopeDb (int slopeIndex)
+{
+    return cutSlopes[juce::jlimit (0, (int) std::size (cutSlopes) - 1, slopeIndex)];
+}
 
 juce::AudioProcessorValueTreeState::ParameterLayout VeviEqProAudioProcessor::createParameterLayout()
 {
     juce::AudioProcessorValueTreeState::ParameterLayout layout;
 
-    layout.add(std::make_unique<juce::AudioParameterFloat>("MasterGain", "Output", -12.0f, 12.0f, 0.0f));
+    const auto& defaults = factoryPrograms[0];
+
+    layout.add(std::make_unique<juce::AudioParameterFloat>("MasterGain", "Output", -12.0f, 12.0f, defaults.masterGain));
+
+    layout.add(std::make_unique<juce::AudioParameterChoice>(
+        "Mode", "Processing Mode", getProcessingModeNames(), ${Math.max(0, PROCESSING_MODES.findIndex(mode => mode.value === processing.mode))}));
 
-    float defaultFreqs[] = { 60.f, 150.f, 400.f, 1000.f, 2500.f, 6000.f, 12000.f };
+    layout.add(std::make_unique<juce::AudioParameterChoice>(
+        "FirLength", "FIR Length",
+        juce::StringArray { ${FIR_LENGTHS.map(length => `"${length} taps"`).join(', ')} }, ${Math.max(0, FIR_LENGTHS.indexOf(processing.firLength))}));
 
     for (int i = 0; i < NUM_BANDS; ++i)
     {
         auto prefix = "Band" + juce::String(i + 1);
-        
+        const auto& band = defaults.bands[i];
+
         layout.add(std::make_unique<juce::AudioParameterFloat>(
-            prefix + "Freq", prefix + " Freq", 
-            juce::NormalisableRange<float>(20.0f, 20000.0f, 1.0f, 0.25f), defaultFreqs[i]));
+            prefix + "Freq", prefix + " Freq",
+            juce::NormalisableRange<float>(20.0f, 20000.0f, 0.1f, 0.25f), band.freq));
 
         layout.add(std::make_unique<juce::AudioParameterFloat>(
-            prefix + "Gain", prefix + " Gain", -30.0f, 30.0f, 0.0f));
+            prefix + "Gain", prefix + " Gain", -30.0f, 30.0f, band.gain));
 
         layout.add(std::make_unique<juce::AudioParameterFloat>(
-            prefix + "Q", prefix + " Q", 0.1f, 10.0f, 4.0f));
+            prefix + "Q", prefix + " Q", 0.1f, 10.0f, band.q));
 
-        int defaultType = 0; 
-        if (i == 0) defaultType = 1; 
-        if (i == 6) defaultType = 2; 
+        layout.add(std::make_unique<juce::AudioParameterChoice>(
+            prefix + "Type", prefix + " Type", bandTypeNames, band.type));
 
         layout.add(std::make_unique<juce::AudioParameterChoice>(
-            prefix + "Type", prefix + " Type", 
-            juce::StringArray { "Peak", "LowShelf", "HighShelf" }, defaultType));
-            
+            prefix + "Slope", prefix + " Slope",
+            juce::StringArray { ${CUT_SLOPES.map(slope => `"${slope} dB/oct"`).join(', ')} }, band.slopeIndex));
+
+        layout.add(std::make_unique<juce::AudioParameterBool>(
+            prefix + "Bypass", prefix + " Enabled", band.enabled));
+
         layout.add(std::make_unique<juce::AudioParameterBool>(
-            prefix + "Bypass", prefix + " Enabled", true));
+            prefix + "Solo", prefix + " Solo", band.solo));
+
+        // Dynamic EQ
+        layout.add(std::make_unique<juce::AudioParameterBool>(
+            prefix + "Dynamic", prefix + " Dynamic", band.dynamic));
+
+        layout.add(std::make_unique<juce::AudioParameterChoice>(
+            prefix + "DynMode", prefix + " Dyn Mode", juce::StringArray { "Above", "Below" }, band.dynamicMode));
+
+        layout.add(std::make_unique<juce::AudioParameterFloat>(
+            prefix + "Range", prefix + " Range", 0.0f, ${toCppFloat(DYNAMIC_RANGE_MAX)}, band.range));
+
+        layout.add(std::make_unique<juce::AudioParameterFloat>(
+            prefix + "Threshold", prefix + " Threshold", ${toCppFloat(THRESHOLD_RANGE.min)}, ${toCppFloat(THRESHOLD_RANGE.max)}, band.threshold));
+
+        layout.add(std::make_unique<juce::AudioParameterFloat>(
+            prefix + "Ratio", prefix + " Ratio",
+            juce::NormalisableRange<float>(${toCppFloat(RATIO_RANGE.min)}, ${toCppFloat(RATIO_RANGE.max)}, 0.01f, 0.4f), band.ratio));
+
+        layout.add(std::make_unique<juce::AudioParameterFloat>(
+            prefix + "Attack", prefix + " Attack (ms)",
+            juce::NormalisableRange<float>(${toCppFloat(ATTACK_RANGE.min)}, ${toCppFloat(ATTACK_RANGE.max)}, 0.1f, 0.4f), band.attack));
+
+        layout.add(std::make_unique<juce::AudioParameterFloat>(
+            prefix + "Release", prefix + " Release (ms)",
+            juce::NormalisableRange<float>(${toCppFloat(RELEASE_RANGE.min)}, ${toCppFloat(RELEASE_RANGE.max)}, 1.0f, 0.4f), band.release));
     }
     return layout;
 }
 
 void VeviEqProAudioProcessor::prepareToPlay (double sampleRate, int samplesPerBlock)
 {
-    juce::dsp::ProcessSpec spec;
-    spec.sampleRate = sampleRate;
-    spec.maximumBlockSize = samplesPerBlock;
-    spec.numChannels = getTotalNumOutputChannels();
+    convolution.prepare ({ sampleRate, (juce::uint32) samplesPerBlock, 2 });
+    activeMode = getProcessingMode();
+
+    // The FIR depends on the sample rate: design it again, and report the latency before playback
+    firDesignedFor.clear();
+    updateFir();
 
-    for (int i = 0; i < NUM_BANDS; ++i) {
-        leftFilters[i]->prepare(spec);
-        rightFilters[i]->prepare(spec);
-        leftFilters[i]->reset();
-        rightFilters[i]->reset();
+    // Start at the current settings without gliding
+    for (int i = 0; i < NUM_BANDS; ++i)
+    {
+        auto& band = bands[i];
+        band.freq.reset (sampleRate, smoothingSeconds);
+        band.gain.reset (sampleRate, smoothingSeconds);
+        band.q.reset (sampleRate, smoothingSeconds);
+        band.mix.reset (sampleRate, smoothingSeconds);
+
+        band.freq.setCurrentAndTargetValue (getBandParameter (i, bandFreq));
+        band.gain.setCurrentAndTargetValue (getBandParameter (i, bandGain));
+        band.q.setCurrentAndTargetValue (getBandParameter (i, bandQ));
+        band.mix.setCurrentAndTargetValue (getBandParameter (i, bandBypass) > 0.5f ? 1.0f : 0.0f);
+
+        band.needsDesign = true;
+        band.clearFilterState();
+        band.clearDetector();
+        band.appliedReduction = 0.0f;
+        gainReduction[i].store (0.0f);
     }
-    updateFilters();
+
+    outputGain.reset (sampleRate, smoothingSeconds);
+    outputGain.setCurrentAndTargetValue (juce::Decibels::decibelsToGain (masterGainParameter->load()));
 }
 
 void VeviEqProAudioProcessor::releaseResources() {}
 
-void VeviEqProAudioProcessor::updateFilters()
+VeviEqProAudioProcessor::BandDesign VeviEqProAudioProcessor::designBand (int type, double sampleRate, float freq, float q, float gainDb, int slopeDb)
+{
+    using Coefficients = juce::dsp::IIR::ArrayCoefficients<double>;
+
+    BandDesign design;
+    double gainLinear = juce::Decibels::decibelsToGain((double) gainDb);
+    double f = juce::jmin((double) freq, sampleRate * 0.499);
+
+    auto addBiquad = [&design] (const std::array<double, 6>& c)
+    {
+        design.sections[design.numSections++] = { c[0] / c[3], c[1] / c[3], c[2] / c[3], 1.0, c[4] / c[3], c[5] / c[3] };
+    };
+    // First-order coefficients come as { b0, b1, a0, a1 }
+    auto addFirstOrder = [&design] (const std::array<double, 4>& c)
+    {
+        design.sections[design.numSections++] = { c[0] / c[2], c[1] / c[2], 0.0, 1.0, c[3] / c[2], 0.0 };
+    };
+
+    switch (type)
+    {
+        case 1: addBiquad(Coefficients::makeLowShelf(sampleRate, f, q, gainLinear)); break;
+        case 2: addBiquad(Coefficients::makeHighShelf(sampleRate, f, q, gainLinear)); break;
+        case 3:
+        case 4:
+        {
+            // Butterworth cascade; Q scales the lowest-Q section as resonance
+            bool highPass = (type == 3);
+            int order = juce::jmax(1, slopeDb / 6);
+            if (order % 2 == 1)
+                addFirstOrder(highPass ? Coefficients::makeFirstOrderHighPass(sampleRate, f)
+                                       : Coefficients::makeFirstOrderLowPass(sampleRate, f));
+
+            for (int k = 1; k <= order / 2; ++k)
+            {
+                double angle = (order % 2 == 0) ? (2 * k - 1) * juce::MathConstants<double>::pi / (2 * order)
+                                                : k * juce::MathConstants<double>::pi / order;
+                double sectionQ = 1.0 / (2.0 * std::cos(angle));
+                if (k == 1) sectionQ *= q * juce::MathConstants<double>::sqrt2;
+
+                addBiquad(highPass ? Coefficients::makeHighPass(sampleRate, f, sectionQ)
+                                   : Coefficients::makeLowPass(sampleRate, f, sectionQ));
+            }
+            break;
+        }
+        case 5: addBiquad(Coefficients::makeNotch(sampleRate, f, q)); break;
+        case 6: addBiquad(Coefficients::makeBandPass(sampleRate, f, q)); break;
+        case 7:
+        {
+            // Tilt: high shelf of the full gain, pulled down by half of it
+            auto tilt = Coefficients::makeHighShelf(sampleRate, f, q, gainLinear);
+            double scale = 1.0 / std::sqrt(gainLinear);
+            tilt[0] *= scale; tilt[1] *= scale; tilt[2] *= scale;
+            addBiquad(tilt);
+            break;
+        }
+        default: addBiquad(Coefficients::makePeakFilter(sampleRate, f, q, gainLinear)); break;
+    }
+    return design;
+}
+
+std::complex<double> VeviEqProAudioProcessor::BandDesign::getResponse (double frequency, double sampleRate) const
+{
+    auto z1 = std::polar (1.0, -juce::MathConstants<double>::twoPi * frequency / sampleRate);
+    auto z2 = z1 * z1;
+
+    std::complex<double> response (1.0, 0.0);
+    for (int s = 0; s < numSections; ++s)
+    {
+        const auto& c = sections[s];
+        response *= (c[0] + c[1] * z1 + c[2] * z2) / (1.0 + c[4] * z1 + c[5] * z2);
+    }
+    return response;
+}
+
+int VeviEqProAudioProcessor::getFirLength() const
+{
+    int index = (int) firLengthParameter->load();
+    return firLengths[juce::jlimit (0, (int) std::size (firLengths) - 1, index)];
+}
+
+// Linear phase delays by half the FIR, natural phase by the short lead-in of its impulse
+int VeviEqProAudioProcessor::getLatencyForMode (int mode, int firLength)
+{
+    return mode == 2 ? firLength / 2 : mode == 1 ? naturalPhaseLatency : 0;
+}
+
+void VeviEqProAudioProcessor::timerCallback()
+{
+    updateFir();
+}
+
+// Redesigns the FIR when the mode, its length or a band changed, and reports the latency.
+// The convolution swaps the new filter in on the audio thread, cross-faded.
+void VeviEqProAudioProcessor::updateFir()
 {
     double sampleRate = getSampleRate();
-    if (sampleRate <= 0) return;
+    if (sampleRate <= 0.0) return;
+
+    int mode = getProcessingMode();
+    int firLength = getFirLength();
+    std::vector<float> settings { (float) mode, (float) firLength };
+    if (mode != 0)
+        for (int i = 0; i < NUM_BANDS; ++i)
+            for (auto parameter : { bandFreq, bandGain, bandQ, bandType, bandSlope, bandBypass, bandSolo })
+                settings.push_back (getBandParameter (i, parameter));
+
+    if (settings == firDesignedFor) return;
+    firDesignedFor = settings;
+
+    setLatencySamples (getLatencyForMode (mode, firLength));
+    if (mode != 0)
+        convolution.loadImpulseResponse (designFir (mode, firLength, sampleRate), sampleRate,
+                                         juce::dsp::Convolution::Stereo::no, juce::dsp::Convolution::Trim::no,
+                                         juce::dsp::Convolution::Normalise::no);
+}
 
+/**
+ * Same design as the web app (utils/firDesign.ts): the mode's response, delayed by its latency,
+ * is sampled on a grid of twice the FIR length, transformed back and windowed. Natural phase
+ * takes each band's analog prototype, i.e. its biquad at the frequency the bilinear transform
+ * maps onto the one wanted; linear phase takes the biquads' magnitude only.
+ * Dynamic bands are included at their set gain.
+ */
+juce::AudioBuffer<float> VeviEqProAudioProcessor::designFir (int mode, int firLength, double sampleRate) const
+{
+    bool anySolo = false;
+    for (int i = 0; i < NUM_BANDS; ++i)
+        anySolo = anySolo || getBandParameter (i, bandSolo) > 0.5f;
+
+    std::vector<BandDesign> designs;
+    std::vector<double> designFrequencies;
     for (int i = 0; i < NUM_BANDS; ++i)
     {
-        auto prefix = "Band" + juce::String(i + 1);
-        
-        float freq = apvts.getRawParameterValue(prefix + "Freq")->load();
-        float gainDb = apvts.getRawParameterValue(prefix + "Gain")->load();
-        float q = apvts.getRawParameterValue(prefix + "Q")->load();
-        int type = (int)apvts.getRawParameterValue(prefix + "Type")->load();
-        bool enabled = apvts.getRawParameterValue(prefix + "Bypass")->load() > 0.5f;
+        bool enabled = anySolo ? getBandParameter (i, bandSolo) > 0.5f : getBandParameter (i, bandBypass) > 0.5f;
+        if (! enabled) continue;
 
-        float gainLinear = juce::Decibels::decibelsToGain(gainDb);
-        if (!enabled) gainLinear = 1.0f;
+        float freq = getBandParameter (i, bandFreq);
+        designs.push_back (designBand ((int) getBandParameter (i, bandType), sampleRate, freq, getBandParameter (i, bandQ),
+                                       getBandParameter (i, bandGain), getSlopeDb ((int) getBandParameter (i, bandSlope))));
+        designFrequencies.push_back (juce::jmin ((double) freq, sampleRate * 0.499));
+    }
 
-        auto coeffs = juce::dsp::IIR::Coefficients<float>::makePeakFilter(sampleRate, freq, q, gainLinear);
+    const auto pi = juce::MathConstants<double>::pi;
+    const int order = juce::roundToInt (std::log2 ((double) firLength)) + 1;
+    const int size = 1 << order;
+    const int latency = getLatencyForMode (mode, firLength);
 
-        if (type == 1) coeffs = juce::dsp::IIR::Coefficients<float>::makeLowShelf(sampleRate, freq, q, gainLinear);
-        else if (type == 2) coeffs = juce::dsp::IIR::Coefficients<float>::makeHighShelf(sampleRate, freq, q, gainLinear);
+    std::vector<std::complex<float>> spectrum ((size_t) size), impulse ((size_t) size);
+    for (int k = 0; k <= size / 2; ++k)
+    {
+        double frequency = k * sampleRate / size;
+        std::complex<double> response (1.0, 0.0);
+        for (size_t b = 0; b < designs.size(); ++b)
+        {
+            if (mode == 1)
+            {
+                double warp = std::tan (pi * designFrequencies[b] / sampleRate) / designFrequencies[b];
+                response *= designs[b].getResponse (sampleRate / pi * std::atan (warp * frequency), sampleRate);
+            }
+            else
+            {
+                response *= designs[b].getMagnitudeForFrequency (frequency, sampleRate);
+            }
+        }
 
-        *leftFilters[i]->state = *coeffs;
-        *rightFilters[i]->state = *coeffs;
+        response *= std::polar (1.0, -2.0 * pi * k * latency / size);
+        if (k == 0 || k == size / 2) response = response.real(); // Real for a real impulse response
+
+        spectrum[(size_t) k] = { (float) response.real(), (float) response.imag() };
+        if (k > 0 && k < size / 2)
+            spectrum[(size_t) (size - k)] = std::conj (spectrum[(size_t) k]);
+    }
+
+    juce::dsp::FFT (order).perform (spectrum.data(), impulse.data(), true); // The inverse is scaled by 1 / size
+
+    // Flat, with half-cosine fades over the last quarter and over the first quarter (linear
+    // phase) or the latency (natural phase)
+    const int fadeIn = mode == 2 ? firLength / 4 : latency;
+    const int fadeOut = firLength / 4;
+    juce::AudioBuffer<float> ir (1, firLength);
+    for (int n = 0; n < firLength; ++n)
+    {
+        double window = 1.0;
+        if (n < fadeIn)
+            window = 0.5 - 0.5 * std::cos (pi * n / fadeIn);
+        else if (n > firLength - fadeOut)
+            window = 0.5 + 0.5 * std::cos (pi * (n - (firLength - fadeOut)) / fadeOut);
+        ir.setSample (0, n, impulse[(size_t) n].real() * (float) window);
+    }
+    return ir;
+}
+
+// Same gain computer as the web app (utils/dynamics.ts): dB change, always <= 0
+static float computeGainReduction (float levelDb, float threshold, float ratio, float range, bool below)
+{
+    float reduction = below ? juce::jmax (0.0f, threshold - levelDb) * (ratio - 1.0f)
+                            : juce::jmax (0.0f, levelDb - threshold) * (1.0f - 1.0f / ratio);
+    return -juce::jmin (range, reduction);
+}
+
+static double timeToCoefficient (float timeMs, double sampleRate)
+{
+    return std::exp (-1.0 / (juce::jmax (0.1f, timeMs) * 0.001 * sampleRate));
+}
+
+void VeviEqProAudioProcessor::updateTargets (bool anySolo)
+{
+    double sampleRate = getSampleRate();
+
+    for (int i = 0; i < NUM_BANDS; ++i)
+    {
+        auto& band = bands[i];
+
+        // Like the web app: while any band is soloed, only soloed bands are heard
+        bool enabled = anySolo ? getBandParameter (i, bandSolo) > 0.5f : getBandParameter (i, bandBypass) > 0.5f;
+
+        band.freq.setTargetValue (getBandParameter (i, bandFreq));
+        band.gain.setTargetValue (getBandParameter (i, bandGain));
+        band.q.setTargetValue (getBandParameter (i, bandQ));
+        band.mix.setTargetValue (enabled ? 1.0f : 0.0f);
+
+        // Type and slope cannot glide; they switch at the next sub-block
+        int type = (int) getBandParameter (i, bandType);
+        int slopeDb = getSlopeDb ((int) getBandParameter (i, bandSlope));
+        if (type != band.type || slopeDb != band.slopeDb)
+        {
+            band.type = type;
+            band.slopeDb = slopeDb;
+            band.needsDesign = true;
+        }
+
+        band.dynamic = enabled && getBandParameter (i, bandDynamic) > 0.5f;
+        band.below = (int) getBandParameter (i, bandDynMode) == 1;
+        band.threshold = getBandParameter (i, bandThreshold);
+        band.ratio = juce::jmax (1.0f, getBandParameter (i, bandRatio));
+        band.range = getBandParameter (i, bandRange);
+        band.attackCoeff = timeToCoefficient (getBandParameter (i, bandAttack), sampleRate);
+        band.releaseCoeff = timeToCoefficient (getBandParameter (i, bandRelease), sampleRate);
+    }
+}
+
+/**
+ * Envelope follower of a dynamic band: the unprocessed input, band-passed at the band's
+ * frequency and Q, drives a stereo-linked peak detector with attack/release ballistics.
+ */
+void VeviEqProAudioProcessor::detect (int bandIndex, const float* const* input, int numChannels, int numSamples)
+{
+    auto& band = bands[bandIndex];
+    if (! band.dynamic)
+    {
+        band.clearDetector();
+        gainReduction[bandIndex].store (0.0f);
+        return;
+    }
+
+    const auto c = designBand (6, getSampleRate(), band.freq.getCurrentValue(), band.q.getCurrentValue(), 0.0f, 12).sections[0];
+    double envelope = band.envelope;
+
+    for (int s = 0; s < numSamples; ++s)
+    {
+        double peak = 0.0;
+        for (int ch = 0; ch < numChannels; ++ch)
+        {
+            auto* z = band.detectorZ[ch];
+            double x = input[ch][s];
+            double y = c[0] * x + z[0];
+            z[0] = c[1] * x - c[4] * y + z[1];
+            z[1] = c[2] * x - c[5] * y;
+            peak = juce::jmax (peak, std::abs (y));
+        }
+        double coeff = peak > envelope ? band.attackCoeff : band.releaseCoeff;
+        envelope = coeff * envelope + (1.0 - coeff) * peak;
+    }
+
+    band.envelope = envelope;
+    float levelDb = juce::Decibels::gainToDecibels ((float) envelope, -120.0f);
+    band.reduction = computeGainReduction (levelDb, band.threshold, band.ratio, band.range, band.below);
+    gainReduction[bandIndex].store (band.reduction);
+}
+
+// Moves the smoothers on by one sub-block and redesigns the band if anything changed
+void VeviEqProAudioProcessor::advance (BandState& band, int numSamples)
+{
+    bool gliding = band.freq.isSmoothing() || band.gain.isSmoothing() || band.q.isSmoothing();
+    float freq = band.freq.skip (numSamples);
+    float gain = band.gain.skip (numSamples);
+    float q = band.q.skip (numSamples);
+    band.mix.skip (numSamples);
+
+    if (! gliding && ! band.needsDesign && band.reduction == band.appliedReduction)
+        return;
+
+    auto design = designBand (band.type, getSampleRate(), freq, q, gain + band.reduction, band.slopeDb);
+
+    // Sections that join the cascade start from silence
+    for (int s = band.design.numSections; s < design.numSections; ++s)
+        for (auto& channel : band.z)
+            channel[s][0] = channel[s][1] = 0.0;
+
+    band.design = design;
+    band.appliedReduction = band.reduction;
+    band.needsDesign = false;
+}
+
+void VeviEqProAudioProcessor::processBand (BandState& band, float* data, int channel, int numSamples)
+{
+    const auto& design = band.design;
+    float mix = band.mix.getCurrentValue();
+
+    for (int s = 0; s < numSamples; ++s)
+    {
+        double dry = data[s];
+        double x = dry;
+        for (int k = 0; k < design.numSections; ++k)
+        {
+            const auto& c = design.sections[k];
+            auto* z = band.z[channel][k];
+            double y = c[0] * x + z[0];
+            z[0] = c[1] * x - c[4] * y + z[1];
+            z[1] = c[2] * x - c[5] * y;
+            x = y;
+        }
+        data[s] = (float) (dry + (x - dry) * mix);
     }
 }
 
 void VeviEqProAudioProcessor::processBlock (juce::AudioBuffer<float>& buffer, juce::MidiBuffer& midiMessages)
 {
     juce::ScopedNoDenormals noDenormals;
-    updateFilters();
-
-    float outputGain = juce::Decibels::decibelsToGain(apvts.getRawParameterValue("MasterGain")->load());
+    juce::ignoreUnused (midiMessages);
 
     auto totalNumInputChannels  = getTotalNumInputChannels();
     auto totalNumOutputChannels = getTotalNumOutputChannels();
@@ -179,23 +736,82 @@ void VeviEqProAudioProcessor::processBlock (juce::AudioBuffer<float>& buffer, ju
     for (auto i = totalNumInputChannels; i < totalNumOutputChannels; ++i)
         buffer.clear (i, 0, buffer.getNumSamples());
 
-    auto* leftData = buffer.getWritePointer(0);
-    auto* rightData = (totalNumOutputChannels > 1) ? buffer.getWritePointer(1) : nullptr;
-    
+    // Mono in, stereo out: both sides get the input
+    if (totalNumInputChannels == 1 && totalNumOutputChannels > 1)
+        buffer.copyFrom (1, 0, buffer, 0, 0, buffer.getNumSamples());
+
+    int numChannels = juce::jmin (2, totalNumOutputChannels);
     int numSamples = buffer.getNumSamples();
 
-    for (int s = 0; s < numSamples; ++s)
+    bool anySolo = false;
+    for (int i = 0; i < NUM_BANDS; ++i)
+        anySolo = anySolo || getBandParameter (i, bandSolo) > 0.5f;
+
+    updateTargets (anySolo);
+    outputGain.setTargetValue (juce::Decibels::decibelsToGain (masterGainParameter->load()));
+
+    // Switching mode: the path taken over starts from silence
+    int mode = getProcessingMode();
+    if (mode != activeMode)
+    {
+        for (auto& band : bands)
+            band.clearFilterState();
+        convolution.reset();
+        activeMode = mode;
+    }
+
+    // FIR modes: the convolution stands in for the bands, without dynamics
+    if (mode != 0)
     {
-        float l = leftData[s];
-        float r = (rightData != nullptr) ? rightData[s] : l;
+        auto block = juce::dsp::AudioBlock<float> (buffer).getSubsetChannelBlock (0, (size_t) numChannels);
+        convolution.process (juce::dsp::ProcessContextReplacing<float> (block));
 
-        for (int i = 0; i < NUM_BANDS; ++i) {
-            l = leftFilters[i]->processSample(l);
-            r = rightFilters[i]->processSample(r);
+        for (int i = 0; i < NUM_BANDS; ++i)
+            gainReduction[i].store (0.0f);
+
+        for (int s = 0; s < numSamples; ++s)
+        {
+            float gain = outputGain.getNextValue();
+            for (int ch = 0; ch < numChannels; ++ch)
+                buffer.getWritePointer (ch)[s] *= gain;
         }
+        return;
+    }
+
+    // The detectors listen to the input, not to the bands processed before them
+    float dry[2][SUB_BLOCK];
+    const float* dryChannels[2] = { dry[0], dry[1] };
 
-        leftData[s] = l * outputGain;
-        if (rightData) rightData[s] = r * outputGain;
+    for (int start = 0; start < numSamples; start += SUB_BLOCK)
+    {
+        int n = juce::jmin (SUB_BLOCK, numSamples - start);
+
+        for (int ch = 0; ch < numChannels; ++ch)
+            std::copy_n (buffer.getReadPointer (ch, start), n, dry[ch]);
+
+        for (int i = 0; i < NUM_BANDS; ++i)
+        {
+            auto& band = bands[i];
+            detect (i, dryChannels, numChannels, n);
+            advance (band, n);
+
+            if (band.mix.getCurrentValue() == 0.0f)
+            {
+                // Fully off: forget the filter memory so switching on starts clean
+                band.clearFilterState();
+                continue;
+            }
+
+            for (int ch = 0; ch < numChannels; ++ch)
+                processBand (band, buffer.getWritePointer (ch, start), ch, n);
+        }
+
+        for (int s = 0; s < n; ++s)
+        {
+            float gain = outputGain.getNextValue();
+            for (int ch = 0; ch < numChannels; ++ch)
+                buffer.getWritePointer (ch)[start + s] *= gain;
+        }
     }
 }
 
@@ -205,11 +821,57 @@ const juce::String VeviEqProAudioProcessor::getName() const { return JucePlugin_
 bool VeviEqProAudioProcessor::acceptsMidi() const { return false; }
 bool VeviEqProAudioProcessor::producesMidi() const { return false; }
 bool VeviEqProAudioProcessor::isMidiEffect() const { return false; }
-double VeviEqProAudioProcessor::getTailLengthSeconds() const { return 0.0; }
-int VeviEqProAudioProcessor::getNumPrograms() { return 1; }
-int VeviEqProAudioProcessor::getCurrentProgram() { return 0; }
-void VeviEqProAudioProcessor::setCurrentProgram (int index) {}
-const juce::String VeviEqProAudioProcessor::getProgramName (int index) { return {}; }
+
+// The FIR modes ring on for the length of their filter
+double VeviEqProAudioProcessor::getTailLengthSeconds() const
+{
+    double sampleRate = getSampleRate();
+    return getProcessingMode() != 0 && sampleRate > 0.0 ? getFirLength() / sampleRate : 0.0;
+}
+
+int VeviEqProAudioProcessor::getNumPrograms() { return numFactoryPrograms; }
+int VeviEqProAudioProcessor::getCurrentProgram() { return currentProgram; }
+
+void VeviEqProAudioProcessor::setCurrentProgram (int index)
+{
+    if (index < 0 || index >= numFactoryPrograms) return;
+    currentProgram = index;
+    const auto& program = factoryPrograms[index];
+
+    auto setParameter = [this] (const juce::String& id, float value)
+    {
+        if (auto* param = apvts.getParameter (id))
+            param->setValueNotifyingHost (param->convertTo0to1 (value));
+    };
+
+    setParameter ("MasterGain", program.masterGain);
+    for (int i = 0; i < NUM_BANDS; ++i)
+    {
+        const auto& band = program.bands[i];
+        setParameter (paramId (i, "Freq"), band.freq);
+        setParameter (paramId (i, "Gain"), band.gain);
+        setParameter (paramId (i, "Q"), band.q);
+        setParameter (paramId (i, "Type"), (float) band.type);
+        setParameter (paramId (i, "Slope"), (float) band.slopeIndex);
+        setParameter (paramId (i, "Bypass"), band.enabled ? 1.0f : 0.0f);
+        setParameter (paramId (i, "Solo"), band.solo ? 1.0f : 0.0f);
+        setParameter (paramId (i, "Dynamic"), band.dynamic ? 1.0f : 0.0f);
+        setParameter (paramId (i, "DynMode"), (float) band.dynamicMode);
+        setParameter (paramId (i, "Range"), band.range);
+        setParameter (paramId (i, "Threshold"), band.threshold);
+        setParameter (paramId (i, "Ratio"), band.ratio);
+        setParameter (paramId (i, "Attack"), band.attack);
+        setParameter (paramId (i, "Release"), band.release);
+    }
+}
+
+const juce::String VeviEqProAudioProcessor::getProgramName (int index)
+{
+    if (index < 0 || index >= numFactoryPrograms) return {};
+    return juce::String::fromUTF8 (factoryPrograms[index].name);
+}
+
+// Factory programs are compiled in and cannot be renamed
 void VeviEqProAudioProcessor::changeProgramName (int index, const juce::String& newName) {}
 void VeviEqProAudioProcessor::getStateInformation (juce::MemoryBlock& destData) {
     auto state = apvts.copyState();
@@ -247,11 +909,33 @@ public:
     void resized() override;
     void timerCallback() override;
 
+    // Band handles work like the web graph: drag for frequency and gain,
+    // mouse wheel for Q, double-click to switch the band on or off
+    void mouseMove (const juce::MouseEvent&) override;
+    void mouseDown (const juce::MouseEvent&) override;
+    void mouseDrag (const juce::MouseEvent&) override;
+    void mouseUp (const juce::MouseEvent&) override;
+    void mouseDoubleClick (const juce::MouseEvent&) override;
+    void mouseWheelMove (const juce::MouseEvent&, const juce::MouseWheelDetails&) override;
+
 private:
     VeviEqProAudioProcessor& audioProcessor;
-    
+
+    static constexpr float maxDb = 30.0f;
+    static constexpr float handleRadius = 8.0f;
+
+    int draggedBand = -1;
+    int hoveredBand = -1;
+
     float getFreqForX(float x) const;
     float getXForFreq(float freq) const;
+    float getYForGain(float db) const;
+    float getGainForY(float y) const;
+
+    float getBandValue (int bandIndex, const juce::String& name) const;
+    void setBandValue (int bandIndex, const juce::String& name, float value);
+    juce::Point<float> getHandlePosition (int bandIndex) const;
+    int findBandAt (juce::Point<float> position) const;
 
     JUCE_DECLARE_NON_COPYABLE_WITH_LEAK_DETECTOR (VeviEqProAudioProcessorEditor)
 };
@@ -295,9 +979,103 @@ float VeviEqProAudioProcessorEditor::getXForFreq(float freq) const
     return (float)getWidth() * (std::log(freq / 20.0f) / std::log(20000.0f / 20.0f));
 }
 
+float VeviEqProAudioProcessorEditor::getYForGain(float db) const
+{
+    return juce::jmap(db, -maxDb, maxDb, (float)getHeight(), 0.0f);
+}
+
+float VeviEqProAudioProcessorEditor::getGainForY(float y) const
+{
+    return juce::jmap(y, (float)getHeight(), 0.0f, -maxDb, maxDb);
+}
+
+float VeviEqProAudioProcessorEditor::getBandValue (int bandIndex, const juce::String& name) const
+{
+    return audioProcessor.apvts.getRawParameterValue (VeviEqProAudioProcessor::paramId (bandIndex, name))->load();
+}
+
+void VeviEqProAudioProcessorEditor::setBandValue (int bandIndex, const juce::String& name, float value)
+{
+    if (auto* param = audioProcessor.apvts.getParameter (VeviEqProAudioProcessor::paramId (bandIndex, name)))
+        param->setValueNotifyingHost (param->convertTo0to1 (value));
+}
+
+// Gainless bands sit on the 0 dB line
+juce::Point<float> VeviEqProAudioProcessorEditor::getHandlePosition (int bandIndex) const
+{
+    bool gainless = VeviEqProAudioProcessor::isGainless ((int) getBandValue (bandIndex, "Type"));
+    return { getXForFreq (getBandValue (bandIndex, "Freq")), getYForGain (gainless ? 0.0f : getBandValue (bandIndex, "Gain")) };
+}
+
+int VeviEqProAudioProcessorEditor::findBandAt (juce::Point<float> position) const
+{
+    int closest = -1;
+    float closestDistance = handleRadius * 1.5f;
+    for (int i = 0; i < VeviEqProAudioProcessor::NUM_BANDS; ++i)
+    {
+        float distance = getHandlePosition (i).getDistanceFrom (position);
+        if (distance < closestDistance) { closest = i; closestDistance = distance; }
+    }
+    return closest;
+}
+
+void VeviEqProAudioProcessorEditor::mouseMove (const juce::MouseEvent& e)
+{
+    hoveredBand = findBandAt (e.position);
+    setMouseCursor (hoveredBand >= 0 ? juce::MouseCursor::DraggingHandCursor : juce::MouseCursor::NormalCursor);
+}
+
+void VeviEqProAudioProcessorEditor::mouseDown (const juce::MouseEvent& e)
+{
+    draggedBand = findBandAt (e.position);
+    if (draggedBand < 0) return;
+
+    // One gesture per drag, so the host records a single automation/undo step
+    for (auto* name : { "Freq", "Gain" })
+        if (auto* param = audioProcessor.apvts.getParameter (VeviEqProAudioProcessor::paramId (draggedBand, name)))
+            param->beginChangeGesture();
+}
+
+void VeviEqProAudioProcessorEditor::mouseDrag (const juce::MouseEvent& e)
+{
+    if (draggedBand < 0) return;
+
+    float x = juce::jlimit (0.0f, (float)getWidth(), e.position.x);
+    setBandValue (draggedBand, "Freq", juce::jlimit (20.0f, 20000.0f, getFreqForX (x)));
+
+    if (! VeviEqProAudioProcessor::isGainless ((int) getBandValue (draggedBand, "Type")))
+        setBandValue (draggedBand, "Gain", juce::jlimit (-maxDb, maxDb, getGainForY (e.position.y)));
+}
+
+void VeviEqProAudioProcessorEditor::mouseUp (const juce::MouseEvent&)
+{
+    if (draggedBand < 0) return;
+
+    for (auto* name : { "Freq", "Gain" })
+        if (auto* param = audioProcessor.apvts.getParameter (VeviEqProAudioProcessor::paramId (draggedBand, name)))
+            param->endChangeGesture();
+    draggedBand = -1;
+}
+
+void VeviEqProAudioProcessorEditor::mouseDoubleClick (const juce::MouseEvent& e)
+{
+    int band = findBandAt (e.position);
+    if (band >= 0)
+        setBandValue (band, "Bypass", getBandValue (band, "Bypass") > 0.5f ? 0.0f : 1.0f);
+}
+
+void VeviEqProAudioProcessorEditor::mouseWheelMove (const juce::MouseEvent& e, const juce::MouseWheelDetails& wheel)
+{
+    int band = findBandAt (e.position);
+    if (band < 0) return;
+
+    float q = getBandValue (band, "Q") * std::pow (2.0f, wheel.deltaY * 2.0f);
+    setBandValue (band, "Q", juce::jlimit (0.1f, 10.0f, q));
+}
+
 void VeviEqProAudioProcessorEditor::paint (juce::Graphics& g)
 {
-    g.fillAll (juce::Colour::fromString("ff020617")); 
+    g.fillAll (juce::Colour::fromString("ff020617"));
 
     g.setColour(juce::Colour::fromString("ff1e293b"));
     for (float f : {60, 100, 200, 500, 1000, 2000, 5000, 10000}) {
@@ -306,24 +1084,57 @@ void VeviEqProAudioProcessorEditor::paint (juce::Graphics& g)
     }
     g.drawHorizontalLine(getHeight() / 2, 0.0f, (float)getWidth());
 
+    const int numBands = VeviEqProAudioProcessor::NUM_BANDS;
+    double sampleRate = audioProcessor.getSampleRate() > 0 ? audioProcessor.getSampleRate() : 48000.0;
+
+    // Same solo rule as the processor
+    bool anySolo = false;
+    for (int i = 0; i < numBands; ++i)
+        anySolo = anySolo || getBandValue (i, "Solo") > 0.5f;
+
+    // Designs include the live dynamic gain change, so the curve moves with the music
+    VeviEqProAudioProcessor::BandDesign designs[numBands];
+    bool active[numBands];
+    for (int i = 0; i < numBands; ++i)
+    {
+        active[i] = anySolo ? getBandValue (i, "Solo") > 0.5f : getBandValue (i, "Bypass") > 0.5f;
+        designs[i] = VeviEqProAudioProcessor::designBand ((int) getBandValue (i, "Type"), sampleRate,
+                                                          getBandValue (i, "Freq"), getBandValue (i, "Q"),
+                                                          getBandValue (i, "Gain") + audioProcessor.getGainReduction (i),
+                                                          VeviEqProAudioProcessor::getSlopeDb ((int) getBandValue (i, "Slope")));
+    }
+
+    // Faint curve of each band in its colour
+    for (int i = 0; i < numBands; ++i)
+    {
+        if (! active[i]) continue;
+
+        juce::Path bandCurve;
+        for (int x = 0; x < getWidth(); x += 4)
+        {
+            float db = juce::Decibels::gainToDecibels ((float) designs[i].getMagnitudeForFrequency (getFreqForX ((float)x), sampleRate));
+            float y = getYForGain (juce::jlimit (-maxDb, maxDb, db));
+            if (x == 0) bandCurve.startNewSubPath ((float)x, y);
+            else bandCurve.lineTo ((float)x, y);
+        }
+        g.setColour (juce::Colour (VeviEqProAudioProcessor::bandColours[i]).withAlpha (0.4f));
+        g.strokePath (bandCurve, juce::PathStrokeType (1.0f));
+    }
+
     juce::Path curve;
     bool started = false;
 
     for (int x = 0; x < getWidth(); x += 2)
     {
         float freq = getFreqForX((float)x);
-        float mag = 1.0f;
+        double mag = 1.0;
 
-        for (int i = 0; i < VeviEqProAudioProcessor::NUM_BANDS; ++i)
-        {
-            auto* filter = audioProcessor.getLeftFilter(i);
-            if (filter) {
-                mag *= filter->state->getMagnitudeForFrequency(freq, audioProcessor.getSampleRate());
-            }
-        }
+        for (int i = 0; i < numBands; ++i)
+            if (active[i])
+                mag *= designs[i].getMagnitudeForFrequency(freq, sampleRate);
 
-        float db = juce::Decibels::gainToDecibels(mag);
-        float y = juce::jmap(db, -30.0f, 30.0f, (float)getHeight(), 0.0f);
+        float db = juce::Decibels::gainToDecibels((float)mag);
+        float y = getYForGain(juce::jlimit(-maxDb, maxDb, db));
 
         if (!started) { curve.startNewSubPath((float)x, y); started = true; }
         else { curve.lineTo((float)x, y); }
@@ -339,11 +1150,70 @@ void VeviEqProAudioProcessorEditor::paint (juce::Graphics& g)
     curve.lineTo(0.0f, (float)getHeight());
     curve.closeSubPath();
     g.fillPath(curve);
-    
+
+    // Band handles, numbered like the web app; bands that are off are greyed out
+    for (int i = 0; i < numBands; ++i)
+    {
+        auto position = getHandlePosition (i);
+        auto colour = juce::Colour (VeviEqProAudioProcessor::bandColours[i]);
+        if (! active[i]) colour = colour.withSaturation (0.0f).withAlpha (0.5f);
+
+        // Dynamic bands show how far the gain is currently pulled from its setting
+        float reduction = audioProcessor.getGainReduction (i);
+        if (active[i] && reduction < -0.05f)
+        {
+            g.setColour (colour.withAlpha (0.6f));
+            g.drawLine (position.x, position.y, position.x, getYForGain (getBandValue (i, "Gain") + reduction), 3.0f);
+        }
+
+        auto bounds = juce::Rectangle<float> (handleRadius * 2.0f, handleRadius * 2.0f).withCentre (position);
+        g.setColour (colour);
+        g.fillEllipse (bounds);
+        if (i == draggedBand || i == hoveredBand)
+        {
+            g.setColour (juce::Colours::white);
+            g.drawEllipse (bounds.expanded (2.0f), 1.5f);
+        }
+
+        g.setColour (juce::Colours::white);
+        g.setFont (10.0f);
+        g.drawText (juce::String (i + 1), bounds, juce::Justification::centred);
+    }
+
     g.setColour(juce::Colours::white);
     g.setFont(20.0f);
     g.drawText("VEVI EQ Pro", 20, 20, 200, 30, juce::Justification::left);
+
+    // Processing mode, with the latency reported to the host
+    juce::String modeText = VeviEqProAudioProcessor::getProcessingModeNames()[audioProcessor.getProcessingMode()];
+    if (audioProcessor.getLatencySamples() > 0)
+        modeText << "  " << juce::String (1000.0 * audioProcessor.getLatencySamples() / sampleRate, 1) << " ms";
+    g.setColour (juce::Colours::white.withAlpha (0.6f));
+    g.setFont (12.0f);
+    g.drawText (modeText, getWidth() - 220, 20, 200, 30, juce::Justification::right);
 }
 
 void VeviEqProAudioProcessorEditor::resized() {}
 `;
+
+/**
+ * The band count follows the first program (the live curve); other programs with more
+ * bands than that cannot be represented and are left out.
+ */
+export const fitPluginPrograms = (programs: PluginProgram[]): PluginProgram[] =>
+  programs.filter((program, index) => index === 0 || program.bands.length <= programs[0].bands.length);
+
+/**
+ * All source files of the plugin, keyed by file name. `processing` is the mode it starts in.
+ */
+export const createPluginSources = (programs: PluginProgram[], processing?: ProcessingSettings): Record<string, string> => {
+  const numBands = Math.max(1, programs[0].bands.length);
+  const fitting = fitPluginPrograms(programs);
+
+  return {
+    'PluginProcessor.h': createPluginProcessorH(numBands),
+    'PluginProcessor.cpp': createPluginProcessorCpp(numBands, fitting, processing),
+    'PluginEditor.h': PLUGIN_EDITOR_H,
+    'PluginEditor.cpp': PLUGIN_EDITOR_CPP,
+  };
+};
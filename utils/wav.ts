@@ -0,0 +1,99 @@
+/**
+ * WAV (RIFF) writing for rendered audio, plus sample-rate sniffing of the formats we decode.
+ */
+
+export type WavBitDepth = 16 | 24 | 32; // 32 = IEEE float
+
+export const WAV_BIT_DEPTHS: { value: WavBitDepth; label: string }[] = [
+  { value: 16, label: '16-bit' },
+  { value: 24, label: '24-bit' },
+  { value: 32, label: '32-bit float' },
+];
+
+const writeString = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+/**
+ * Interleaves the channels into a WAV file. Integer formats are clamped at full scale;
+ * with `dither`, TPDF noise of 1 LSB is added before rounding. Float output is written as is,
+ * so it keeps anything above 0 dBFS.
+ */
+export const encodeWav = (channels: Float32Array[], sampleRate: number, bitDepth: WavBitDepth, dither: boolean = false): ArrayBuffer => {
+  const numChannels = channels.length;
+  const length = channels[0]?.length ?? 0;
+  const bytesPerSample = bitDepth / 8;
+  const dataSize = length * numChannels * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, bitDepth === 32 ? 3 : 1, true); // 3 = IEEE float, 1 = PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * bytesPerSample, true);
+  view.setUint16(32, numChannels * bytesPerSample, true);
+  view.setUint16(34, bitDepth, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const maxInt = Math.pow(2, bitDepth - 1) - 1;
+  let offset = 44;
+
+  for (let i = 0; i < length; i++) {
+    for (let channel = 0; channel < numChannels; channel++) {
+      const sample = channels[channel][i];
+
+      if (bitDepth === 32) {
+        view.setFloat32(offset, sample, true);
+      } else {
+        const noise = dither ? Math.random() - Math.random() : 0;
+        const value = Math.max(-maxInt - 1, Math.min(maxInt, Math.round(sample * maxInt + noise)));
+        if (bitDepth === 16) {
+          view.setInt16(offset, value, true);
+        } else {
+          view.setUint8(offset, value & 0xff);
+          view.setUint8(offset + 1, (value >> 8) & 0xff);
+          view.setUint8(offset + 2, (value >> 16) & 0xff);
+        }
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return buffer;
+};
+
+/**
+ * Native sample rate of a WAV or FLAC file, read from its header.
+ * decodeAudioData resamples to the context rate, so this lets a render keep the file's rate.
+ * @returns null for other formats (e.g. MP3) or unreadable headers.
+ */
+export const detectSampleRate = (data: ArrayBuffer): number | null => {
+  const view = new DataView(data);
+  const tag = (offset: number) => String.fromCharCode(...new Uint8Array(data, offset, 4));
+  if (data.byteLength < 28) return null;
+
+  if (tag(0) === 'RIFF' && tag(8) === 'WAVE') {
+    // Walk the chunks up to "fmt "
+    let offset = 12;
+    while (offset + 8 <= data.byteLength) {
+      const size = view.getUint32(offset + 4, true);
+      if (tag(offset) === 'fmt ' && offset + 16 <= data.byteLength) return view.getUint32(offset + 12, true) || null;
+      offset += 8 + size + (size % 2);
+    }
+    return null;
+  }
+
+  if (tag(0) === 'fLaC') {
+    // STREAMINFO is always the first metadata block; the rate is 20 bits at byte 18
+    const rate = (view.getUint8(18) << 12) | (view.getUint8(19) << 4) | (view.getUint8(20) >> 4);
+    return rate || null;
+  }
+
+  return null;
+};
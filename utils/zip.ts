@@ -0,0 +1,86 @@
+/**
+ * Minimal zip writer. Files are stored uncompressed, which every unzip tool reads and is
+ * plenty for a handful of generated text files.
+ */
+
+export interface ZipEntry {
+  path: string; // Forward slashes, e.g. "Source/PluginProcessor.cpp"
+  content: string | Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (data: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time, as used in zip headers
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+const UTF8_FLAG = 0x0800;
+
+export const createZip = (entries: ZipEntry[], modified: Date = new Date()): Uint8Array<ArrayBuffer> => {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modified);
+
+  const files = entries.map(entry => {
+    const name = encoder.encode(entry.path);
+    const data = typeof entry.content === 'string' ? encoder.encode(entry.content) : entry.content;
+    return { name, data, crc: crc32(data) };
+  });
+
+  const localSize = files.reduce((sum, file) => sum + 30 + file.name.length + file.data.length, 0);
+  const centralSize = files.reduce((sum, file) => sum + 46 + file.name.length, 0);
+  const buffer = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(buffer.buffer);
+  let offset = 0;
+
+  const u16 = (value: number) => { view.setUint16(offset, value, true); offset += 2; };
+  const u32 = (value: number) => { view.setUint32(offset, value, true); offset += 4; };
+  const bytes = (value: Uint8Array) => { buffer.set(value, offset); offset += value.length; };
+
+  const localOffsets: number[] = [];
+  for (const file of files) {
+    localOffsets.push(offset);
+    u32(0x04034b50);
+    u16(20); u16(UTF8_FLAG); u16(0); // version needed, flags, method: stored
+    u16(time); u16(date);
+    u32(file.crc); u32(file.data.length); u32(file.data.length);
+    u16(file.name.length); u16(0);
+    bytes(file.name);
+    bytes(file.data);
+  }
+
+  const centralOffset = offset;
+  files.forEach((file, index) => {
+    u32(0x02014b50);
+    u16(20); u16(20); u16(UTF8_FLAG); u16(0); // version made by, version needed, flags, method
+    u16(time); u16(date);
+    u32(file.crc); u32(file.data.length); u32(file.data.length);
+    u16(file.name.length); u16(0); u16(0); // extra, comment
+    u16(0); u16(0); u32(0); // disk, internal and external attributes
+    u32(localOffsets[index]);
+    bytes(file.name);
+  });
+
+  u32(0x06054b50);
+  u16(0); u16(0);
+  u16(files.length); u16(files.length);
+  u32(centralSize); u32(centralOffset);
+  u16(0);
+
+  return buffer;
+};